@@ -3,14 +3,41 @@ import { themes as prismThemes } from "prism-react-renderer";
 import remarkMath from "remark-math";
 import rehypeKatex from "rehype-katex";
 import { readFileSync } from "fs";
-import { parse as parseYaml } from "yaml";
 import { join } from "path";
+import logger from "@docusaurus/logger";
+import remarkCodeFromFile from "./plugins/code-from-file/remark";
+import commandPalettePlugin from "./plugins/command-palette";
+import docMetaPlugin from "./plugins/doc-meta";
+import remarkDocHeaderMeta from "./plugins/doc-meta/remark";
+import llmsTxtPlugin from "./plugins/llms-txt";
+import markdownSourcePlugin from "./plugins/markdown-source";
+import pinnedLinksPlugin, { isLatestDocRoute } from "./plugins/pinned-links";
+import searchFacetsPlugin from "./plugins/search-facets";
+import searchIndexPlugin from "./plugins/search-index";
+import searchSynonymsPlugin from "./plugins/search-synonyms";
+import staleReportPlugin from "./plugins/stale-report";
+import { readReleaseManifest } from "./plugins/utils/releaseManifest";
 
 // Read the next version from release manifest
-const releaseManifestPath = join(__dirname, ".release", "release-manifest.yml");
-const releaseManifest = parseYaml(readFileSync(releaseManifestPath, "utf8"));
+const releaseManifest = readReleaseManifest(__dirname);
 const nextVersion = releaseManifest.next_version;
 
+// GitHub repo of this site.
+const organizationName = "0xMiden";
+const projectName = "docs";
+
+// Without an endpoint, page feedback is only logged to the browser console.
+const feedbackEndpoint = process.env.FEEDBACK_ENDPOINT || null;
+if (!feedbackEndpoint && process.env.NODE_ENV === "production") {
+  logger.warn`FEEDBACK_ENDPOINT is not set: page feedback will only be logged to the browser console.`;
+}
+
+// Latest released docs version, served at the site root
+const versions: string[] = JSON.parse(
+  readFileSync(join(__dirname, "versions.json"), "utf8"),
+);
+const latestVersion = versions[0];
+
 const config: Config = {
   title: "Miden Docs",
   tagline: "One stop shop for everything Miden",
@@ -19,8 +46,8 @@ const config: Config = {
   url: "https://docs.miden.xyz/",
   baseUrl: "",
 
-  organizationName: "0xMiden",
-  projectName: "docs",
+  organizationName,
+  projectName,
 
   onBrokenLinks: "warn",
   onBrokenMarkdownLinks: "warn",
@@ -40,6 +67,33 @@ const config: Config = {
     },
   ],
 
+  customFields: {
+    // "Was this page helpful?" backend (src/components/PageActions/feedback.ts).
+    // Votes are only logged to the console when no endpoint is set.
+    feedback: {
+      endpoint: feedbackEndpoint,
+    },
+    // Pinned refs of the ingested repos, for the released version's upstream
+    // "Edit source" links (src/components/PageActions/upstreamSource.ts), and
+    // the version /next/ will be released as, for `applies_to` checks.
+    release: {
+      version: releaseManifest.version,
+      nextVersion,
+      refs: releaseManifest.refs,
+    },
+    // When a doc shows the "may be outdated" banner and is listed in the
+    // build's stale-page report (plugins/utils/staleness.ts): not updated for
+    // maxAgeDays, overridden per doc id prefix, or an `applies_to` front
+    // matter that doesn't include the docs version.
+    staleness: {
+      maxAgeDays: 365,
+      sections: {
+        "builder/get-started/": 180,
+        "builder/tutorials/": 180,
+      },
+    },
+  },
+
   presets: [
     [
       "classic",
@@ -55,7 +109,16 @@ const config: Config = {
               label: `${nextVersion} (unstable)`,
             },
           },
-          remarkPlugins: [remarkMath],
+          remarkPlugins: [
+            remarkMath,
+            // <CodeFromFile src region />: code read from the repo or vendor/
+            [
+              remarkCodeFromFile,
+              { siteDir: __dirname, repo: `${organizationName}/${projectName}` },
+            ],
+            // Reading time, difficulty and prerequisites under each title
+            remarkDocHeaderMeta,
+          ],
           rehypePlugins: [rehypeKatex],
         }, // Disable preset docs plugin => using own plugin
         blog: false, // Disable blog
@@ -172,12 +235,21 @@ const config: Config = {
             redirects.push(existingPath.replace("/core-concepts", "/design"));
           }
 
+          // Version-pinned links (heading menu): /<latest>/… for the pages
+          // of the latest version, which lives at the root until the next
+          // version cut moves it under its version prefix.
+          if (isLatestDocRoute(existingPath)) {
+            redirects.push(`/${latestVersion}${existingPath}`);
+          }
+
           return redirects.length > 0 ? redirects : undefined;
         },
       },
     ],
     [
-      "@cmfcmf/docusaurus-search-local",
+      // Wraps @cmfcmf/docusaurus-search-local with a code-identifier-aware
+      // index build; takes the same options plus codeBoost.
+      searchIndexPlugin,
       {
         indexDocs: true,
         indexBlog: false,
@@ -189,15 +261,15 @@ const config: Config = {
         // https://www.algolia.com/doc/ui-libraries/autocomplete/api-reference/autocomplete-theme-classic/
         style: undefined,
 
+        // Exact matches inside code blocks rank above prose mentions by this factor.
+        codeBoost: 10,
+
         // lunr.js-specific settings
         lunr: {
-          // When indexing your documents, their content is split into "tokens".
-          // Text entered into the search box is also tokenized.
-          // This setting configures the separator used to determine where to split the text into tokens.
-          // By default, it splits the text at whitespace and dashes.
+          // Tokenization is not configured here: plugins/search-index/tokenizer.ts
+          // splits identifiers on `::`, `.`, `_` and camelCase and keeps the
+          // full identifier as a token, for both the index and queries.
           //
-          // Note: Does not work for "ja" and "th" languages, since these use a different tokenizer.
-          tokenizerSeparator: /[\s\-]+/,
           // https://lunrjs.com/guides/customising.html#similarity-tuning
           //
           // This parameter controls the importance given to the length of a document and its fields. This
@@ -221,6 +293,22 @@ const config: Config = {
         },
       },
     ],
+    // Sidebar-section facets for search (writes search-facets-<tag>.json)
+    searchFacetsPlugin,
+    // Glossary aliases ("UTXO" → Note) used to expand search queries
+    searchSynonymsPlugin,
+    // Sidebar entries for the Cmd/Ctrl+K command palette
+    commandPalettePlugin,
+    // Authored Markdown of every doc at <route>.md, for "Copy page" and tools
+    markdownSourcePlugin,
+    // Per-version llms.txt and llms-full.txt from the sidebars, and skill.md
+    llmsTxtPlugin,
+    // Build-time report of pages past the staleness policy, by sidebar category
+    staleReportPlugin,
+    // Reading time, difficulty and prerequisites for doc headers and cards
+    docMetaPlugin,
+    // Latest version routes, for the /<latest>/… redirects above
+    pinnedLinksPlugin,
   ],
 
   scripts: [
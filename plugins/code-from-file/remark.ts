@@ -0,0 +1,91 @@
+import path from "path";
+import type { Root, RootContent } from "mdast";
+import type {
+  MdxJsxAttribute,
+  MdxJsxFlowElement,
+  MdxJsxTextElement,
+} from "mdast-util-mdx-jsx";
+import type { VFile } from "vfile";
+import { getSnippetRequest, readSnippet } from "./snippet";
+
+export type RemarkCodeFromFileOptions = {
+  siteDir: string;
+  /** `owner/name` of this repo on GitHub, for source links. */
+  repo: string;
+};
+
+type JsxElement = MdxJsxFlowElement | MdxJsxTextElement;
+
+/** String (or `{expression}`) attributes; spread attributes are ignored. */
+function getAttributes(node: JsxElement): Record<string, unknown> {
+  return Object.fromEntries(
+    node.attributes.flatMap((attribute) =>
+      attribute.type === "mdxJsxAttribute"
+        ? [[attribute.name, attribute.value ?? true]]
+        : [],
+    ),
+  );
+}
+
+function attribute(name: string, value: string): MdxJsxAttribute {
+  return { type: "mdxJsxAttribute", name, value };
+}
+
+/**
+ * Reads the code of every `<CodeFromFile src="…" region="…" />` in a doc
+ * at build time (see ./snippet.ts) and passes it to the component
+ * (src/components/mdx/CodeFromFile) as props, with a link to the file on
+ * GitHub. Missing files, regions and lines fail the build, listed all at
+ * once.
+ */
+export default function remarkCodeFromFile({
+  siteDir,
+  repo,
+}: RemarkCodeFromFileOptions) {
+  return (tree: Root, file: VFile) => {
+    const invalid: string[] = [];
+    const visit = (node: Root | RootContent) => {
+      if (
+        (node.type === "mdxJsxFlowElement" ||
+          node.type === "mdxJsxTextElement") &&
+        node.name === "CodeFromFile"
+      ) {
+        try {
+          if (node.type === "mdxJsxTextElement") {
+            throw new Error("must be on a line of its own");
+          }
+          const attributes = getAttributes(node);
+          const snippet = readSnippet(
+            siteDir,
+            repo,
+            getSnippetRequest(attributes),
+          );
+          const { title = snippet.path, language = snippet.language } =
+            attributes;
+          if (typeof title !== "string" || typeof language !== "string") {
+            throw new Error("title and language must be strings");
+          }
+          node.attributes = [
+            attribute("code", snippet.code),
+            attribute("language", language),
+            attribute("title", title),
+            attribute("href", snippet.url),
+          ];
+        } catch (error) {
+          invalid.push(
+            `  - line ${node.position?.start.line}: ${(error as Error).message}`,
+          );
+        }
+        return;
+      }
+      if ("children" in node) node.children.forEach(visit);
+    };
+    visit(tree);
+
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid CodeFromFile in ${path.relative(siteDir, file.path)}:\n${invalid.join("\n")}`,
+      );
+    }
+  };
+}
@@ -0,0 +1,110 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getSnippetRequest, readSnippet } from "./snippet";
+
+const MAIN_RS = `use miden_client::Client;
+
+fn main() {
+    // region: create_account
+    let account = create_account();
+    // region: print
+    println!("{account}");
+    // endregion: print
+    // endregion: create_account
+}
+`;
+
+let siteDir: string;
+
+beforeAll(() => {
+  siteDir = mkdtempSync(path.join(tmpdir(), "snippet-"));
+  mkdirSync(path.join(siteDir, "examples"));
+  writeFileSync(path.join(siteDir, "examples/main.rs"), MAIN_RS);
+  mkdirSync(path.join(siteDir, "vendor/miden-client/src"), { recursive: true });
+  writeFileSync(path.join(siteDir, "vendor/miden-client/src/main.rs"), MAIN_RS);
+  mkdirSync(path.join(siteDir, "vendor/unknown"));
+  writeFileSync(path.join(siteDir, "vendor/unknown/main.rs"), MAIN_RS);
+});
+
+afterAll(() => rmSync(siteDir, { recursive: true, force: true }));
+
+const read = (src: string, options: { region?: string; lines?: string } = {}) =>
+  readSnippet(siteDir, "0xMiden/docs", { src, ...options });
+
+describe("readSnippet", () => {
+  it("reads a whole file", () => {
+    const snippet = read("examples/main.rs");
+    expect(snippet.path).toBe("examples/main.rs");
+    expect(snippet.language).toBe("rust");
+    expect(snippet.code).toBe(MAIN_RS.replace(/^.*region.*\n/gm, "").trim());
+    expect(snippet.url).toBe(
+      "https://github.com/0xMiden/docs/blob/HEAD/examples/main.rs",
+    );
+  });
+
+  it("reads a region, dedented, without nested region markers", () => {
+    const snippet = read("examples/main.rs", { region: "create_account" });
+    expect(snippet.code).toBe(
+      'let account = create_account();\nprintln!("{account}");',
+    );
+    expect(snippet.url).toMatch(/#L5-L8$/);
+  });
+
+  it("reads a line range", () => {
+    expect(read("examples/main.rs", { lines: "3-3" }).code).toBe("fn main() {");
+    expect(read("examples/main.rs", { lines: "3" }).url).toMatch(/#L3$/);
+    expect(read("examples/main.rs", { lines: "9-" }).code).toBe("}");
+    expect(read("examples/main.rs", { lines: "9-" }).url).toMatch(/#L9-L10$/);
+  });
+
+  it("rejects ranges outside the file", () => {
+    for (const lines of ["0", "4-3", "2-11", "a-b", "3,4"]) {
+      expect(() => read("examples/main.rs", { lines })).toThrow(
+        `lines="${lines}" is not a range within the 10 lines of examples/main.rs`,
+      );
+    }
+  });
+
+  it("rejects missing regions and both region and lines", () => {
+    expect(() => read("examples/main.rs", { region: "missing" })).toThrow(
+      'region "missing" not found in examples/main.rs',
+    );
+    expect(() =>
+      read("examples/main.rs", { region: "print", lines: "1" }),
+    ).toThrow("give either region or lines, not both");
+  });
+
+  it("links vendor/ files to their ingested repo", () => {
+    expect(read("vendor/miden-client/src/main.rs", { lines: "1" }).url).toBe(
+      "https://github.com/0xMiden/miden-client/blob/HEAD/src/main.rs#L1",
+    );
+    expect(() => read("vendor/unknown/main.rs")).toThrow(
+      "vendor/unknown is not an ingested repo",
+    );
+  });
+
+  it("rejects files outside the repo or missing", () => {
+    expect(() => read("../main.rs")).toThrow(
+      'src="../main.rs" is outside the repo',
+    );
+    expect(() => read("vendor/miden-vm/main.rs")).toThrow(
+      "vendor/miden-vm/main.rs does not exist; check out the ingested repos into vendor/ first",
+    );
+  });
+});
+
+describe("getSnippetRequest", () => {
+  it("checks the attributes", () => {
+    expect(getSnippetRequest({ src: "a.rs", lines: "1-2" })).toEqual({
+      src: "a.rs",
+      region: undefined,
+      lines: "1-2",
+    });
+    expect(() => getSnippetRequest({})).toThrow("src is required");
+    expect(() => getSnippetRequest({ src: "a.rs", lines: 12 })).toThrow(
+      "lines must be a string",
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync, realpathSync } from "fs";
+import path from "path";
+import { dedent } from "../utils/code";
+import { getVendorRepo } from "../utils/ingested";
+
+/** The props of a `<CodeFromFile>` element that pick the code. */
+export type SnippetRequest = {
+  /** Path from the repo root, e.g. `vendor/tutorials/rust-client/src/main.rs`. */
+  src: string;
+  /** Name of a `// region: <name>` … `// endregion: <name>` span. */
+  region?: string;
+  /** 1-based, inclusive line range: `12-40`, `12-` or `12`. */
+  lines?: string;
+};
+
+export type Snippet = {
+  /** Path from the repo root, with `/` separators. */
+  path: string;
+  language: string;
+  code: string;
+  /** The file on GitHub at the checked-out commit, anchored to the lines. */
+  url: string;
+};
+
+/** Languages of file extensions whose name isn't the language. */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  rs: "rust",
+  sh: "bash",
+  yml: "yaml",
+  py: "python",
+  md: "markdown",
+};
+
+/** `// region: name`, `# endregion: name`, … */
+const REGION_MARKER =
+  /^\s*(?:\/\/+|#+|--|;+)\s*(region|endregion):\s*(\S+)\s*$/;
+
+const LINE_RANGE = /^(\d+)(?:-(\d*))?$/;
+
+/** Ingested repos are checked out as `vendor/<name>` (see deploy-docs.yml). */
+const VENDOR_PATH = /^vendor\/([^/]+)\/(.+)$/;
+
+const headCommits = new Map<string, string>();
+
+/** Commit checked out in a git work tree, or `HEAD` if `dir` isn't one. */
+function getHeadCommit(dir: string): string {
+  if (!headCommits.has(dir)) {
+    let commit = "HEAD";
+    try {
+      const [topLevel, head] = execFileSync(
+        "git",
+        ["rev-parse", "--show-toplevel", "HEAD"],
+        { cwd: dir, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] },
+      ).split("\n");
+      // A vendor/ copy that isn't a checkout would get our commit.
+      if (topLevel === realpathSync(dir)) commit = head;
+    } catch {
+      // Not a git checkout; link to the default branch.
+    }
+    headCommits.set(dir, commit);
+  }
+  return headCommits.get(dir)!;
+}
+
+/** 0-based start and exclusive end of the lines a request selects. */
+function selectLines(
+  fileLines: string[],
+  { src, region, lines }: SnippetRequest,
+): [number, number] {
+  if (region !== undefined && lines !== undefined) {
+    throw new Error("give either region or lines, not both");
+  }
+
+  if (lines !== undefined) {
+    const match = lines.match(LINE_RANGE);
+    const start = Number(match?.[1]);
+    const end =
+      match?.[2] === undefined ? start : Number(match[2] || fileLines.length);
+    if (!match || start < 1 || end < start || end > fileLines.length) {
+      throw new Error(
+        `lines="${lines}" is not a range within the ${fileLines.length} lines of ${src}`,
+      );
+    }
+    return [start - 1, end];
+  }
+
+  if (region !== undefined) {
+    const markers = fileLines.map((line) => line.match(REGION_MARKER));
+    const start = markers.findIndex(
+      (m) => m?.[1] === "region" && m[2] === region,
+    );
+    if (start === -1) throw new Error(`region "${region}" not found in ${src}`);
+    const end = markers.findIndex(
+      (m, index) => index > start && m?.[1] === "endregion" && m[2] === region,
+    );
+    if (end === -1) {
+      throw new Error(
+        `region "${region}" in ${src} has no "endregion: ${region}"`,
+      );
+    }
+    return [start + 1, end];
+  }
+
+  return [0, fileLines.length];
+}
+
+/**
+ * The code a `<CodeFromFile>` shows: a region or line range of a file in
+ * this repo or in the ingested repos under `vendor/`, dedented, without the
+ * region markers of other regions nested in it. Throws if the file, region
+ * or lines don't exist.
+ *
+ * @param siteRepo `owner/name` of this repo on GitHub, for the source link.
+ */
+export function readSnippet(
+  siteDir: string,
+  siteRepo: string,
+  request: SnippetRequest,
+): Snippet {
+  const file = path.resolve(siteDir, request.src);
+  const relative = path.relative(siteDir, file).split(path.sep).join("/");
+  if (relative.startsWith("../") || path.isAbsolute(relative)) {
+    throw new Error(`src="${request.src}" is outside the repo`);
+  }
+  if (!existsSync(file)) {
+    throw new Error(
+      relative.startsWith("vendor/")
+        ? `${relative} does not exist; check out the ingested repos into vendor/ first`
+        : `${relative} does not exist`,
+    );
+  }
+
+  const fileLines = readFileSync(file, "utf8").replace(/\n$/, "").split("\n");
+  const [start, end] = selectLines(fileLines, request);
+  const code = dedent(
+    fileLines
+      .slice(start, end)
+      .filter((line) => !REGION_MARKER.test(line))
+      .join("\n"),
+  ).replace(/^\n+|\s+$/g, "");
+
+  const extension = path.extname(file).slice(1);
+  const vendor = relative.match(VENDOR_PATH);
+  const vendorRepo = vendor && getVendorRepo(vendor[1]);
+  if (vendor && !vendorRepo) {
+    throw new Error(
+      `vendor/${vendor[1]} is not an ingested repo (see plugins/utils/ingested.ts)`,
+    );
+  }
+  const [repo, repoPath, gitDir] = vendor
+    ? [vendorRepo!, vendor[2], path.join(siteDir, "vendor", vendor[1])]
+    : [siteRepo, relative, siteDir];
+  const anchor =
+    request.region === undefined && request.lines === undefined
+      ? ""
+      : end - start > 1
+        ? `#L${start + 1}-L${end}`
+        : `#L${start + 1}`;
+
+  return {
+    path: relative,
+    language: EXTENSION_LANGUAGES[extension] ?? (extension || "text"),
+    code,
+    url: `https://github.com/${repo}/blob/${getHeadCommit(gitDir)}/${repoPath}${anchor}`,
+  };
+}
+
+/** The attributes of a `<CodeFromFile>` element, checked. */
+export function getSnippetRequest(
+  attributes: Record<string, unknown>,
+): SnippetRequest {
+  const { src, region, lines } = attributes;
+  for (const [name, value] of Object.entries({ src, region, lines })) {
+    if (value !== undefined && typeof value !== "string") {
+      throw new Error(`${name} must be a string`);
+    }
+  }
+  if (!src) throw new Error("src is required");
+  return { src, region, lines } as SnippetRequest;
+}
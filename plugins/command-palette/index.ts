@@ -0,0 +1,95 @@
+import type { LoadedVersion } from "@docusaurus/plugin-content-docs";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import {
+  getDocsContent,
+  getSidebarNavbarLabels,
+  type SidebarItem,
+} from "../utils/sidebars";
+
+export type PaletteEntry = {
+  label: string;
+  path: string;
+  /** Navbar label and parent category labels, outermost first. */
+  trail: string[];
+};
+
+function collectEntries(
+  item: SidebarItem,
+  version: LoadedVersion,
+  trail: string[],
+): PaletteEntry[] {
+  const docEntry = (id: string, label?: string): PaletteEntry[] => {
+    const doc = version.docs.find((doc) => doc.id === id);
+    if (!doc || doc.unlisted) return [];
+    return [
+      {
+        label: label ?? (doc.frontMatter.sidebar_label as string) ?? doc.title,
+        path: doc.permalink,
+        trail,
+      },
+    ];
+  };
+
+  switch (item.type) {
+    case "doc":
+    case "ref":
+      return docEntry(item.id, item.label);
+    case "category": {
+      const own =
+        item.link?.type === "doc"
+          ? docEntry(item.link.id, item.label)
+          : item.link?.type === "generated-index"
+            ? [{ label: item.label, path: item.link.permalink, trail }]
+            : [];
+      return [
+        ...own,
+        ...item.items.flatMap((child) =>
+          collectEntries(child, version, [...trail, item.label]),
+        ),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Sidebar entries for the command palette (src/components/CommandPalette).
+ *
+ * Docusaurus' own global data lists every doc's path but not its sidebar
+ * label or category, which the palette needs to show and rank entries. Only
+ * the sidebars linked from the navbar are included. Each version's entries
+ * are a `<version name>.json` data module, which the palette imports when
+ * it opens rather than shipping them with every page.
+ */
+export default function commandPalettePlugin(context: LoadContext): Plugin {
+  return {
+    name: "command-palette",
+
+    async allContentLoaded({ allContent, actions }) {
+      const docs = getDocsContent(allContent);
+      if (!docs) return;
+
+      const navbarLabels = getSidebarNavbarLabels(context.siteConfig);
+      for (const version of docs.loadedVersions) {
+        const versionEntries = Object.entries(navbarLabels).flatMap(
+          ([sidebarId, navbarLabel]) =>
+            (version.sidebars[sidebarId] ?? []).flatMap((item) =>
+              collectEntries(item, version, [navbarLabel]),
+            ),
+        );
+        // A category and its first doc often share a page; list it once,
+        // under the category.
+        const entries: PaletteEntry[] = versionEntries.filter(
+          (entry, index) =>
+            versionEntries.findIndex(({ path }) => path === entry.path) ===
+            index,
+        );
+        await actions.createData(
+          `${version.versionName}.json`,
+          JSON.stringify(entries),
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { DocMetadata } from "@docusaurus/plugin-content-docs";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import { getDocsContent } from "../utils/sidebars";
+import { getReadingTime } from "./readingTime";
+
+export const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export type Prerequisite = {
+  label: string;
+  /** Permalink of the doc, for prerequisites given as a path to one. */
+  href?: string;
+};
+
+export type DocMeta = {
+  /** Minutes, from the prose alone (see ./readingTime.ts). */
+  readingTime: number;
+  difficulty?: Difficulty;
+  /** `estimated_time` as written (`45 min`), or minutes if it's a number. */
+  estimatedTime?: string;
+  prerequisites?: Prerequisite[];
+};
+
+/** A docs version's metadata, by doc id. */
+export type VersionDocMeta = Record<string, DocMeta>;
+
+/** Data modules with the metadata of each doc, by the doc's file path. */
+const docMetaModules = new Map<string, string>();
+
+/**
+ * The data module with a doc's metadata, which plugins/doc-meta/remark.ts
+ * imports into the doc; undefined for files that aren't docs. Only known
+ * once the docs are loaded, which is before they are compiled.
+ */
+export function getDocMetaModule(file: string): string | undefined {
+  return docMetaModules.get(file);
+}
+
+/**
+ * The `difficulty`, `estimated_time` and `prerequisites` front matter of a
+ * doc, checked. A prerequisite ending in `.md`/`.mdx` is a path to another
+ * doc of the same version, relative to this one, and links to it.
+ */
+function getFrontMatterMeta(
+  doc: DocMetadata,
+  docsBySource: Map<string, DocMetadata>,
+  siteDir: string,
+): Omit<DocMeta, "readingTime"> {
+  const {
+    difficulty,
+    estimated_time: estimatedTime,
+    prerequisites,
+  } = doc.frontMatter as Record<string, unknown>;
+  const meta: Omit<DocMeta, "readingTime"> = {};
+
+  if (difficulty !== undefined) {
+    if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+      throw new Error(
+        `difficulty must be one of ${DIFFICULTIES.join(", ")}, got ${JSON.stringify(difficulty)}`,
+      );
+    }
+    meta.difficulty = difficulty as Difficulty;
+  }
+
+  if (estimatedTime !== undefined) {
+    if (typeof estimatedTime === "number" && estimatedTime > 0) {
+      meta.estimatedTime = `${estimatedTime} min`;
+    } else if (typeof estimatedTime === "string" && estimatedTime.trim()) {
+      meta.estimatedTime = estimatedTime.trim();
+    } else {
+      throw new Error(
+        `estimated_time must be minutes or text like "1 hour", got ${JSON.stringify(estimatedTime)}`,
+      );
+    }
+  }
+
+  if (prerequisites !== undefined) {
+    if (
+      !Array.isArray(prerequisites) ||
+      !prerequisites.every((item) => typeof item === "string" && item.trim())
+    ) {
+      throw new Error("prerequisites must be a list of texts or doc paths");
+    }
+    const sourceDir = path.dirname(
+      path.join(siteDir, doc.source.replace(/^@site\//, "")),
+    );
+    meta.prerequisites = (prerequisites as string[]).map((item) => {
+      if (!/\.mdx?$/.test(item)) return { label: item.trim() };
+      const linked = docsBySource.get(path.resolve(sourceDir, item));
+      if (!linked) throw new Error(`prerequisite ${item} is not a doc`);
+      return { label: linked.title, href: linked.permalink };
+    });
+  }
+
+  return meta;
+}
+
+/**
+ * Reading time and the optional difficulty, estimated time and
+ * prerequisites of every doc, for the doc header and the cards of category
+ * index pages (src/components/DocMeta).
+ *
+ * Docusaurus only computes reading times for blog posts, and doc cards get
+ * nothing but a doc's title and description, so both come from here: a
+ * `docs/<version name>/<doc id>.json` data module per doc, imported by the
+ * doc itself so its header is prerendered, and a
+ * `versions/<version name>.json` one per version, loaded by the cards; kept
+ * apart so that the cards' import doesn't take in every doc's module.
+ * Invalid front matter fails the build, listed all at once.
+ */
+export default function docMetaPlugin(context: LoadContext): Plugin {
+  return {
+    name: "doc-meta",
+
+    async allContentLoaded({ allContent, actions }) {
+      const docs = getDocsContent(allContent);
+      if (!docs) return;
+
+      const data: Record<string, VersionDocMeta> = {};
+      const files = new Map<string, [versionName: string, docId: string]>();
+      const invalid: string[] = [];
+      for (const version of docs.loadedVersions) {
+        const docsBySource = new Map(
+          version.docs.map((doc) => [
+            path.join(context.siteDir, doc.source.replace(/^@site\//, "")),
+            doc,
+          ]),
+        );
+        const versionMeta: VersionDocMeta = {};
+        for (const [file, doc] of docsBySource) {
+          try {
+            versionMeta[doc.id] = {
+              readingTime: getReadingTime(await fs.readFile(file, "utf8")),
+              ...getFrontMatterMeta(doc, docsBySource, context.siteDir),
+            };
+            files.set(file, [version.versionName, doc.id]);
+          } catch (error) {
+            invalid.push(`  - ${doc.source}: ${(error as Error).message}`);
+          }
+        }
+        data[version.versionName] = versionMeta;
+      }
+      if (invalid.length > 0) {
+        throw new Error(
+          `doc-meta: invalid front matter in ${invalid.length} docs:\n${invalid.join("\n")}`,
+        );
+      }
+
+      docMetaModules.clear();
+      for (const [file, [versionName, docId]] of files) {
+        docMetaModules.set(
+          file,
+          await actions.createData(
+            `docs/${versionName}/${docId}.json`,
+            JSON.stringify(data[versionName][docId]),
+          ),
+        );
+      }
+      for (const [versionName, versionMeta] of Object.entries(data)) {
+        await actions.createData(
+          `versions/${versionName}.json`,
+          JSON.stringify(versionMeta),
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,32 @@
+const WORDS_PER_MINUTE = 220;
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+/** Fenced code blocks, up to the closing fence or the end of the file. */
+const CODE_FENCE =
+  /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[`~]*[ \t]*$|(?![\s\S]))/gm;
+/**
+ * Template literals in JSX, like the code props of CodeTabs: backticks
+ * after `=`, `:`, `(`, `{`, `[` or `,`, where inline code can't start.
+ */
+const TEMPLATE_LITERAL = /([=:({[,]\s*)`[^`]*`/g;
+const MDX_ESM = /^(?:import|export)\s.*$/gm;
+const COMMENT = /<!--[\s\S]*?-->|\{\/\*[\s\S]*?\*\/\}/g;
+const TAG = /<\/?[A-Za-z][^>]*>/g;
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu;
+
+/**
+ * Minutes it takes to read a Markdown/MDX doc, rounded up: the words of its
+ * prose, counting inline code but not code blocks, front matter, imports or
+ * JSX tags.
+ */
+export function getReadingTime(source: string): number {
+  const prose = source
+    .replace(FRONT_MATTER, "")
+    .replace(CODE_FENCE, "")
+    .replace(TEMPLATE_LITERAL, "$1")
+    .replace(MDX_ESM, "")
+    .replace(COMMENT, "")
+    .replace(TAG, " ");
+  const words = prose.match(WORD)?.length ?? 0;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
@@ -0,0 +1,93 @@
+import type { Program } from "estree";
+import type { Root, RootContent } from "mdast";
+import type { MdxJsxFlowElement } from "mdast-util-mdx-jsx";
+import type { MdxjsEsm } from "mdast-util-mdxjs-esm";
+import type { VFile } from "vfile";
+import { getDocMetaModule } from ".";
+
+/** Name the imported metadata is bound to in the compiled doc. */
+const IDENTIFIER = "__docMeta";
+
+/**
+ * Whether a node is the doc's `# Title`, which @docusaurus/mdx-loader has
+ * wrapped in a `<header>` as the content title by the time this runs.
+ */
+function isContentTitle(node: RootContent): boolean {
+  return (
+    node.type === "mdxJsxFlowElement" &&
+    node.name === "header" &&
+    node.children[0]?.type === "heading" &&
+    node.children[0].depth === 1
+  );
+}
+
+/** `import __docMeta from "<module>";` */
+function importMeta(module: string): MdxjsEsm {
+  const source = JSON.stringify(module);
+  const estree: Program = {
+    type: "Program",
+    sourceType: "module",
+    body: [
+      {
+        type: "ImportDeclaration",
+        specifiers: [
+          {
+            type: "ImportDefaultSpecifier",
+            local: { type: "Identifier", name: IDENTIFIER },
+          },
+        ],
+        source: { type: "Literal", value: module, raw: source },
+        attributes: [],
+      },
+    ],
+  };
+  return {
+    type: "mdxjsEsm",
+    value: `import ${IDENTIFIER} from ${source};`,
+    data: { estree },
+  };
+}
+
+/**
+ * Puts one `<DocHeaderMeta meta={…} />` (src/components/DocMeta) under a
+ * doc's title: right after its `# Title`, or first thing in the content
+ * when the title comes from the front matter and DocItem/Content renders
+ * it above. The metadata is imported from the doc's data module (see
+ * ./index.ts), so it is part of the prerendered page; files that aren't
+ * docs, like partials, get nothing.
+ */
+export default function remarkDocHeaderMeta() {
+  return (tree: Root, file: VFile) => {
+    const module = getDocMetaModule(file.path);
+    if (!module) return;
+    const estree: Program = {
+      type: "Program",
+      sourceType: "module",
+      body: [
+        {
+          type: "ExpressionStatement",
+          expression: { type: "Identifier", name: IDENTIFIER },
+        },
+      ],
+    };
+    const meta: MdxJsxFlowElement = {
+      type: "mdxJsxFlowElement",
+      name: "DocHeaderMeta",
+      attributes: [
+        {
+          type: "mdxJsxAttribute",
+          name: "meta",
+          value: {
+            type: "mdxJsxAttributeValueExpression",
+            value: IDENTIFIER,
+            data: { estree },
+          },
+        },
+      ],
+      children: [],
+    };
+    const title = tree.children.findIndex(isContentTitle);
+    tree.children.splice(title + 1, 0, meta);
+    tree.children.unshift(importMeta(module));
+  };
+}
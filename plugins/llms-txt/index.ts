@@ -0,0 +1,388 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  DocMetadata,
+  LoadedVersion,
+} from "@docusaurus/plugin-content-docs";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import { readSnippet } from "../code-from-file/snippet";
+import { flattenMdx } from "../markdown-source/flatten";
+import {
+  createUrlResolver,
+  getPermalinksBySource,
+  readPageHtml,
+} from "../markdown-source/resolveUrl";
+import {
+  getDocsContent,
+  getSectionDividerLabel,
+  getSidebarNavbarLabels,
+  type SidebarItem,
+} from "../utils/sidebars";
+import { getRefName } from "../utils/gitRef";
+import { getIngestedRepo } from "../utils/ingested";
+import { readReleaseManifest } from "../utils/releaseManifest";
+
+type Section = {
+  title: string;
+  docs: DocMetadata[];
+};
+
+type VersionSections = {
+  version: LoadedVersion;
+  sections: Section[];
+};
+
+const SKILL_TEMPLATE = path.join(__dirname, "skill.md");
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n+/;
+
+const SUMMARY =
+  "Miden is a privacy-preserving blockchain where users execute and prove transactions locally. Accounts are programmable smart contracts, notes are programmable messages, and private state stays client-side unless a developer opts into public or network-visible state.";
+
+/**
+ * Where older versions kept the docs copied in from other repositories, by
+ * `@site/`-relative source; the current layout is in ../utils/ingested.ts.
+ */
+const LEGACY_INGESTED_SOURCES = [
+  ...["0.11", "0.12"].flatMap((version) =>
+    [
+      "compiler/",
+      "miden-base/",
+      "miden-client/",
+      "miden-node/",
+      "miden-tutorials/",
+      "miden-vm/",
+    ].map((dir) => `@site/versioned_docs/version-${version}/${dir}`),
+  ),
+  ...[
+    "builder/tools/client/common-errors.md",
+    "builder/tools/client/rust-client/",
+    "builder/tools/client/web-client/",
+    "builder/tutorials/miden_node_setup.md",
+    "builder/tutorials/rust-client/",
+    "builder/tutorials/rust-compiler/",
+    "builder/tutorials/web-client/",
+    "core-concepts/compiler/",
+    "core-concepts/miden-base/",
+    "core-concepts/miden-node/",
+    "core-concepts/miden-vm/",
+  ].map((docPath) => `@site/versioned_docs/version-0.13/${docPath}`),
+];
+
+/**
+ * Ingested docs may go without `description` front matter, as their
+ * upstream sources rarely have any; they are described by the first
+ * paragraph Docusaurus falls back to.
+ */
+function isIngested(source: string): boolean {
+  return (
+    getIngestedRepo(source) !== null ||
+    LEGACY_INGESTED_SOURCES.some((prefix) =>
+      prefix.endsWith("/") ? source.startsWith(prefix) : source === prefix,
+    )
+  );
+}
+
+const SOURCE_REPOSITORIES: Array<[name: string, description: string]> = [
+  ["docs", "Docusaurus documentation site."],
+  [
+    "protocol",
+    "Protocol types, account model, notes, assets, transactions, and MASM protocol library.",
+  ],
+  ["miden-vm", "Virtual machine and assembler."],
+  ["miden-client", "Rust client, Web SDK, and React SDK."],
+  ["node", "Miden node implementation."],
+  ["compiler", "Rust-to-MASM compiler."],
+  ["tutorials", "Tutorial source content."],
+];
+
+/** Docs an item (and its descendants) links to, in sidebar order. */
+function collectItemDocs(
+  item: SidebarItem,
+  version: LoadedVersion,
+): DocMetadata[] {
+  const doc = (id: string) => {
+    const found = version.docs.find((doc) => doc.id === id);
+    return found && !found.unlisted ? [found] : [];
+  };
+
+  switch (item.type) {
+    case "doc":
+    case "ref":
+      return doc(item.id);
+    case "category":
+      return [
+        ...(item.link?.type === "doc" ? doc(item.link.id) : []),
+        ...item.items.flatMap((child) => collectItemDocs(child, version)),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * A sidebar split at its section dividers (see sidebars.ts); a sidebar
+ * without dividers is one section named after its navbar item.
+ */
+function collectSections(
+  items: SidebarItem[],
+  version: LoadedVersion,
+  navbarLabel: string,
+): Section[] {
+  const sections: Section[] = [];
+  for (const item of items) {
+    const divider = getSectionDividerLabel(item);
+    if (divider) {
+      sections.push({ title: divider, docs: [] });
+      continue;
+    }
+    if (sections.length === 0) sections.push({ title: navbarLabel, docs: [] });
+    sections.at(-1)!.docs.push(...collectItemDocs(item, version));
+  }
+  return sections.filter((section) => section.docs.length > 0);
+}
+
+/**
+ * Directories a version's files are written to: its own route and its
+ * pinned `/<version>/` path, which differ for the latest version (served at
+ * the root) so agents can pin to it before the next cut.
+ */
+function getVersionDirs(version: LoadedVersion): string[] {
+  const route = version.path.replace(/\/?$/, "/");
+  const pinned =
+    version.versionName === "current" ? route : `/${version.versionName}/`;
+  return route === pinned ? [pinned] : [route, pinned];
+}
+
+/** Canonical (pinned) directory of a version's files. */
+function getPinnedDir(version: LoadedVersion): string {
+  return getVersionDirs(version).at(-1)!;
+}
+
+/**
+ * `llms.txt` (https://llmstxt.org) and `llms-full.txt` for every docs
+ * version, generated from the sidebars linked from the navbar, plus the
+ * agent `skill.md` (./skill.md) with its version numbers and source refs
+ * filled in.
+ *
+ * Each version gets its files under `/<version>/` (`/next/` for the current
+ * one); the latest version's are also at the site root. `llms.txt` lists
+ * every doc with its title and description, one `##` section per sidebar
+ * section; `llms-full.txt` is the Markdown of the same docs, flattened and
+ * with absolute links like the `<route>.md` files (see ../markdown-source),
+ * in the same order.
+ *
+ * A doc's description is its `description` front matter; docs without it
+ * fail the build, listed all at once. Only ingested docs (see `isIngested`)
+ * may fall back to their first paragraph.
+ */
+export default function llmsTxtPlugin(context: LoadContext): Plugin {
+  let versions: VersionSections[] = [];
+  let permalinksBySource = new Map<string, string>();
+  const { organizationName, projectName } = context.siteConfig;
+  const siteRepo = `${organizationName}/${projectName}`;
+
+  const url = (pathname: string) =>
+    new URL(pathname, context.siteConfig.url).href;
+
+  const describeVersion = (version: LoadedVersion): string => {
+    if (version.versionName === "current") {
+      return `Unreleased ${version.label} docs; behavior may change before release.`;
+    }
+    if (version.isLast) return `Latest stable docs, version ${version.label}.`;
+    const latest = versions.find(({ version }) => version.isLast)?.version;
+    return `Docs for the ${version.label} release${latest ? `; the latest stable release is ${latest.label}` : ""}.`;
+  };
+
+  const renderLlmsTxt = ({ version, sections }: VersionSections): string => {
+    const dir = getPinnedDir(version);
+    const links = [
+      `- [Docs home](${url(version.path)}): ${describeVersion(version)}`,
+      `- [Agent skill](${url("/skill.md")}): Compact Miden context for AI coding assistants.`,
+      `- [Full documentation](${url(`${dir}llms-full.txt`)}): Every page below as one Markdown file.`,
+      `- [GitHub organization](https://github.com/0xMiden): Source repositories.`,
+    ];
+    const otherVersions = versions
+      .filter((other) => other.version !== version)
+      .map(
+        ({ version: other }) =>
+          `- [Miden ${other.label} docs](${url(`${getPinnedDir(other)}llms.txt`)}): ${describeVersion(other)}`,
+      );
+    return [
+      `# Miden Documentation ${version.label}`,
+      `> ${SUMMARY}`,
+      links.join("\n"),
+      ...sections.map((section) =>
+        [
+          `## ${section.title}`,
+          section.docs
+            .map(
+              (doc) =>
+                `- [${doc.title}](${url(doc.permalink)}): ${doc.description.replace(/\s+/g, " ").trim()}`,
+            )
+            .join("\n"),
+        ].join("\n\n"),
+      ),
+      "## Optional",
+      [
+        ...otherVersions,
+        ...SOURCE_REPOSITORIES.map(
+          ([name, description]) =>
+            `- [${name}](https://github.com/0xMiden/${name}): ${description}`,
+        ),
+      ].join("\n"),
+    ].join("\n\n");
+  };
+
+  const renderLlmsFullTxt = async (
+    { version, sections }: VersionSections,
+    outDir: string,
+  ): Promise<string> => {
+    const pages: string[] = [];
+    for (const doc of sections.flatMap((section) => section.docs)) {
+      const markdown = await fs.readFile(
+        path.join(context.siteDir, doc.source.replace(/^@site\//, "")),
+        "utf8",
+      );
+      let flattened: string;
+      try {
+        flattened = await flattenMdx(
+          markdown,
+          createUrlResolver({
+            siteDir: context.siteDir,
+            siteUrl: context.siteConfig.url,
+            source: doc.source,
+            permalink: doc.permalink,
+            permalinksBySource,
+            html: await readPageHtml(outDir, doc.permalink),
+          }),
+          (request) => readSnippet(context.siteDir, siteRepo, request),
+        );
+      } catch (error) {
+        throw new Error(
+          `${doc.source}: could not flatten MDX for llms-full.txt: ${(error as Error).message}`,
+        );
+      }
+      const body = flattened.replace(FRONT_MATTER, "").trim();
+      const heading = /^# /.test(body) ? "" : `# ${doc.title}\n\n`;
+      pages.push(`${heading}${body}\n\nSource: ${url(doc.permalink)}`);
+    }
+    return [
+      `<!-- Miden documentation, version ${version.label} (${pages.length} pages) -->`,
+      ...pages,
+    ].join("\n\n---\n\n");
+  };
+
+  const renderSkill = async (): Promise<string> => {
+    const manifest = readReleaseManifest(context.siteDir);
+    const latest = versions.find(({ version }) => version.isLast)?.version;
+    const values: Record<string, string> = {
+      latestVersion: latest?.label ?? manifest.version,
+      nextVersion: manifest.next_version,
+      releaseVersion: manifest.version,
+      versionRouteMaps: versions
+        .map(
+          ({ version }) =>
+            `  - ${version.label}: ${url(`${getPinnedDir(version)}llms.txt`)}`,
+        )
+        .join("\n"),
+      sourceRefs: Object.entries(manifest.refs)
+        .map(([repo, ref]) => {
+          const name = getRefName(ref);
+          return `- ${repo}: [${name}](https://github.com/0xMiden/${repo}/tree/${name})`;
+        })
+        .join("\n"),
+    };
+    const template = await fs.readFile(SKILL_TEMPLATE, "utf8");
+    return template.replace(
+      /\{\{(\w+)(?::([^}]+))?\}\}/g,
+      (placeholder, key: string, docId?: string) => {
+        if (key === "doc" && docId) {
+          // The doc's page in the latest version, as llms.txt links it.
+          const doc = latest?.docs.find(({ id }) => id === docId);
+          if (!doc) {
+            throw new Error(
+              `${SKILL_TEMPLATE}: ${placeholder} is not a doc of the latest version`,
+            );
+          }
+          return url(doc.permalink);
+        }
+        if (!(key in values)) {
+          throw new Error(
+            `${SKILL_TEMPLATE}: unknown placeholder ${placeholder}`,
+          );
+        }
+        return values[key];
+      },
+    );
+  };
+
+  return {
+    name: "llms-txt",
+
+    async allContentLoaded({ allContent }) {
+      const docs = getDocsContent(allContent);
+      if (!docs) return;
+
+      permalinksBySource = getPermalinksBySource(
+        context.siteDir,
+        docs.loadedVersions.flatMap((version) => version.docs),
+      );
+      const navbarLabels = getSidebarNavbarLabels(context.siteConfig);
+      versions = docs.loadedVersions.map((version) => {
+        const sections = Object.entries(navbarLabels).flatMap(
+          ([sidebarId, navbarLabel]) =>
+            collectSections(
+              version.sidebars[sidebarId] ?? [],
+              version,
+              navbarLabel,
+            ),
+        );
+        // A category and its first doc often share a page; list it once.
+        const listed = new Set<string>();
+        for (const section of sections) {
+          section.docs = section.docs.filter(
+            ({ id }) => !listed.has(id) && listed.add(id),
+          );
+        }
+        return { version, sections };
+      });
+
+      const undescribed = versions
+        .flatMap(({ sections }) => sections.flatMap((section) => section.docs))
+        .filter((doc) =>
+          isIngested(doc.source)
+            ? !doc.description.trim()
+            : typeof doc.frontMatter.description !== "string" ||
+              !doc.frontMatter.description.trim(),
+        )
+        .map((doc) => `  - ${doc.source}`);
+      if (undescribed.length > 0) {
+        throw new Error(
+          `llms.txt: ${undescribed.length} docs have no description; add \`description\` front matter to:\n${undescribed.join("\n")}`,
+        );
+      }
+    },
+
+    async postBuild({ outDir }) {
+      if (versions.length === 0) return;
+
+      for (const entry of versions) {
+        const llmsTxt = renderLlmsTxt(entry);
+        const llmsFullTxt = await renderLlmsFullTxt(entry, outDir);
+        for (const dir of getVersionDirs(entry.version)) {
+          await fs.mkdir(path.join(outDir, dir), { recursive: true });
+          await fs.writeFile(
+            path.join(outDir, dir, "llms.txt"),
+            `${llmsTxt}\n`,
+          );
+          await fs.writeFile(
+            path.join(outDir, dir, "llms-full.txt"),
+            `${llmsFullTxt}\n`,
+          );
+        }
+      }
+      await fs.writeFile(path.join(outDir, "skill.md"), await renderSkill());
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/** Version prefix of a docs route: `/0.13/builder` → `/0.13`, `/builder` → none. */
+const VERSION_PREFIX = /^\/(?:next|\d+\.\d+)(?=\/|$)/;
+
+/**
+ * A link or image URL found on a doc page, made absolute on the production
+ * site so it still works once the page's Markdown is pasted elsewhere.
+ *
+ * Same-page anchors and URLs with a scheme are kept as they are.
+ * Root-relative routes (`/builder/…`) get the page's version prefix, as
+ * authors mean the same version they are writing in, unless they already
+ * have one or point at a file (`/img/logo.svg`). Anything else resolves
+ * against the page, like a browser would.
+ */
+export function toAbsoluteUrl(
+  url: string,
+  pathname: string,
+  siteUrl: string,
+): string {
+  if (url.startsWith("#") || /^[a-z][a-z\d+.-]*:/i.test(url)) return url;
+
+  const path = url.split(/[?#]/)[0];
+  if (
+    url.startsWith("/") &&
+    !url.startsWith("//") &&
+    !VERSION_PREFIX.test(path) &&
+    !/\.\w+$/.test(path)
+  ) {
+    const prefix = pathname.match(VERSION_PREFIX)?.[0] ?? "";
+    return new URL(`${prefix}${url}`, siteUrl).href;
+  }
+  return new URL(url, new URL(pathname, siteUrl)).href;
+}
@@ -0,0 +1,23 @@
+/** Docusaurus admonition types and Callout variants → GitHub alert types. */
+const ALERT_TYPES: Record<string, string> = {
+  note: "NOTE",
+  secondary: "NOTE",
+  zk: "NOTE",
+  tip: "TIP",
+  success: "TIP",
+  info: "IMPORTANT",
+  important: "IMPORTANT",
+  warning: "WARNING",
+  warn: "WARNING",
+  caution: "CAUTION",
+  danger: "CAUTION",
+};
+
+/**
+ * The GitHub alert type (`NOTE`, `TIP`, …) for an admonition type or
+ * Callout variant, `NOTE` for unknown ones. Shared by the flattened
+ * Markdown sources and "Copy page" so both quote a page the same way.
+ */
+export function getAlertType(type: string): string {
+  return ALERT_TYPES[type] ?? "NOTE";
+}
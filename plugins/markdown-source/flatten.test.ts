@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import { flattenMdx } from "./flatten";
+
+const mdx = (lines: string[]) => `${lines.join("\n")}\n`;
+
+describe("flattenMdx", () => {
+  it("keeps Markdown as written", async () => {
+    const source = mdx([
+      "---",
+      "title: Notes",
+      "---",
+      "",
+      "# Notes {#notes}",
+      "",
+      "Some *text* with `code` and $x^2$.",
+      "",
+      ":::tip",
+      "An admonition.",
+      ":::",
+    ]);
+    expect(await flattenMdx(source)).toBe(source);
+  });
+
+  it("drops imports, exports and JSX comments", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          "import Tabs from '@theme/Tabs';",
+          "export const x = 1;",
+          "",
+          "{/* draft */}",
+          "",
+          "Text.",
+        ]),
+      ),
+    ).toBe(mdx(["Text."]));
+  });
+
+  it("turns a Callout into a GitHub alert", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          '<Callout variant="warn" title="Careful">',
+          "",
+          "First line.",
+          "",
+          "Second line.",
+          "",
+          "</Callout>",
+        ]),
+      ),
+    ).toBe(
+      mdx([
+        "> [!WARNING]",
+        "> **Careful**",
+        "> First line.",
+        ">",
+        "> Second line.",
+      ]),
+    );
+  });
+
+  it("turns Cards into a link list, through resolveUrl", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          "<CardGrid>",
+          '  <Card title="Accounts" href="./accounts" eyebrow="Learn">',
+          "    What accounts are.",
+          "  </Card>",
+          "</CardGrid>",
+        ]),
+        (url) => `https://docs.miden.xyz/builder/${url.slice(2)}`,
+      ),
+    ).toBe(
+      mdx([
+        "- [Accounts](https://docs.miden.xyz/builder/accounts) (Learn): What accounts are.",
+      ]),
+    );
+  });
+
+  it("numbers Steps", async () => {
+    expect(
+      await flattenMdx(
+        mdx(["<Steps>", "", "Install.", "", "Run.", "", "</Steps>"]),
+      ),
+    ).toBe(mdx(["1. Install.", "", "2. Run."]));
+  });
+
+  it("writes a fence per code tab, output fences without escapes", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          "<MultiCode>",
+          "",
+          '```bash title="Terminal"',
+          "miden-client new-wallet",
+          "```",
+          "",
+          "```bash output",
+          "\\x1b[32mCreated\\x1b[0m",
+          "```",
+          "",
+          "</MultiCode>",
+        ]),
+      ),
+    ).toBe(
+      mdx([
+        '```bash title="Terminal"',
+        "miden-client new-wallet",
+        "```",
+        "",
+        '```bash title="Output"',
+        "Created",
+        "```",
+      ]),
+    );
+  });
+
+  it("turns CodeSdkTabs into fences, its dots into indentation", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          "<CodeSdkTabs example={{",
+          "  react: { code: `useAccount();` },",
+          "  typescript: { code: `if (x) {",
+          ".run();",
+          "}` },",
+          "}} />",
+        ]),
+      ),
+    ).toBe(
+      mdx([
+        "**React**",
+        "",
+        '```tsx title="index.tsx"',
+        "useAccount();",
+        "```",
+        "",
+        "**TypeScript**",
+        "",
+        '```ts title="index.ts"',
+        "if (x) {",
+        "  run();",
+        "}",
+        "```",
+      ]),
+    );
+  });
+
+  it("turns TerminalOutput into a fence of its output or diff", async () => {
+    expect(
+      await flattenMdx(
+        mdx([
+          "<TerminalOutput>",
+          "",
+          "```text",
+          "\\x1b[1mok\\x1b[0m",
+          "```",
+          "",
+          "</TerminalOutput>",
+        ]),
+      ),
+    ).toBe(mdx(['```text title="Output"', "ok", "```"]));
+    expect(
+      await flattenMdx(
+        mdx([
+          "<TerminalOutput>",
+          "",
+          "```text",
+          "a",
+          "b",
+          "```",
+          "",
+          "```text",
+          "a",
+          "c",
+          "```",
+          "",
+          "</TerminalOutput>",
+        ]),
+      ),
+    ).toBe(mdx(["```diff", "  a", "- b", "+ c", "```"]));
+  });
+
+  it("reads CodeFromFile through the snippet loader", async () => {
+    expect(
+      await flattenMdx(
+        mdx(['<CodeFromFile src="examples/main.rs" region="main" />']),
+        undefined,
+        (request) => ({
+          path: request.src,
+          language: "rust",
+          code: `// ${request.region}`,
+          url: "",
+        }),
+      ),
+    ).toBe(mdx(['```rust title="examples/main.rs"', "// main", "```"]));
+  });
+
+  it("passes links and images through resolveUrl", async () => {
+    expect(
+      await flattenMdx(
+        mdx(["[Notes](./notes.md) and ![Logo](/img/logo.svg)"]),
+        (url) => `https://docs.miden.xyz${url.replace(/^\./, "/builder")}`,
+      ),
+    ).toBe(
+      mdx([
+        "[Notes](https://docs.miden.xyz/builder/notes.md) and ![Logo](https://docs.miden.xyz/img/logo.svg)",
+      ]),
+    );
+  });
+});
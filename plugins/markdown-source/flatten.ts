@@ -0,0 +1,340 @@
+import type { Nodes, RootContent } from "mdast";
+import {
+  getSnippetRequest,
+  type Snippet,
+  type SnippetRequest,
+} from "../code-from-file/snippet";
+import { stripAnsi } from "../utils/ansi";
+import { dedent, fence, OUTPUT_FLAG, preserveIndent } from "../utils/code";
+import { formatDiff } from "../utils/lineDiff";
+import { getProps, parseMdx, type JsxElement, type Props } from "../utils/mdx";
+import { getAlertType } from "./alertType";
+import type { UrlResolver } from "./resolveUrl";
+
+/** Reads the code of a `<CodeFromFile>`, e.g. `readSnippet` bound to the site. */
+export type SnippetLoader = (request: SnippetRequest) => Snippet;
+
+type CodeExample = { code?: string; output?: string };
+type CodeTab = {
+  label: string;
+  language: string;
+  filename?: string;
+  example: CodeExample;
+};
+
+/** Lowercase JSX elements that only exist for layout. */
+const LAYOUT_ELEMENTS = new Set(["div", "span"]);
+
+const COMMENT_EXPRESSION = /^\s*\/\*[\s\S]*\*\/\s*$/;
+
+function indentContinuation(text: string, prefix: string): string {
+  return text.replace(/\n(?=.)/g, `\n${prefix}`);
+}
+
+/** A link destination (and title), `<>`-wrapped when it can't be bare. */
+function destination(url: string, title?: string | null): string {
+  const target = /[\s()<>]/.test(url) ? `<${url}>` : url;
+  return title ? `${target} "${title.replace(/"/g, '\\"')}"` : target;
+}
+
+function renderCodeTabs(tabs: CodeTab[]): string {
+  const present = tabs.filter((tab) => typeof tab.example?.code === "string");
+  return present
+    .map((tab) => {
+      const blocks = [
+        fence(tab.language, tab.example.code!, { title: tab.filename }),
+      ];
+      if (present.length > 1) blocks.unshift(`**${tab.label}**`);
+      if (tab.example.output) {
+        blocks.push(
+          fence("bash", stripAnsi(tab.example.output), { title: "Output" }),
+        );
+      }
+      return blocks.join("\n\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Flatten a doc's MDX to plain Markdown.
+ *
+ * The source is kept verbatim (frontmatter, headings, code fences, math,
+ * mermaid, admonition directives) except for MDX-only syntax: imports and
+ * exports and JSX comments are dropped, and JSX components are
+ * replaced with the Markdown they stand for: Callout becomes a GitHub alert,
+ * Card and SectionLinks become link lists, MultiCode (and CodeTabs and
+ * CodeSdkTabs) become one fenced block per tab, TerminalOutput a fenced
+ * block of its output (or of the diff) without colour escapes, and layout
+ * wrappers are replaced by their children. Replacements are spliced in by
+ * source position, so untouched text keeps its exact formatting.
+ *
+ * Link and image URLs, including those of the components above, are passed
+ * through `resolveUrl` (see ./resolveUrl.ts); they are kept as authored by
+ * default. CodeFromFile becomes a fenced block of the code `loadSnippet`
+ * reads for it.
+ */
+export async function flattenMdx(
+  source: string,
+  resolveUrl: UrlResolver = (url) => url,
+  loadSnippet: SnippetLoader = () => {
+    throw new Error("CodeFromFile needs a snippet loader");
+  },
+): Promise<string> {
+  const tree = await parseMdx(source);
+
+  const start = (node: Nodes) => node.position!.start.offset!;
+  const end = (node: Nodes) => node.position!.end.offset!;
+
+  const splice = (from: number, to: number, children: Nodes[]): string => {
+    let output = "";
+    let cursor = from;
+    for (const child of children) {
+      if (!child.position) continue;
+      const replacement = render(child);
+      output += source.slice(cursor, start(child)) + replacement;
+      cursor = end(child);
+      if (replacement === "" && /(^|\n)[ \t]*$/.test(output)) {
+        // Drop the emptied line(s) along with one following blank line.
+        output = output.replace(/[ \t]*$/, "");
+        cursor +=
+          source.slice(cursor).match(/^[ \t]*\n(?:[ \t]*\n)?/)?.[0].length ?? 0;
+      }
+    }
+    return output + source.slice(cursor, to);
+  };
+
+  /** Children as a standalone, dedented Markdown fragment. */
+  const renderFragment = (children: Nodes[]): string => {
+    const positioned = children.filter((child) => child.position);
+    if (positioned.length === 0) return "";
+    let from = start(positioned[0]);
+    const lineStart = source.lastIndexOf("\n", from - 1) + 1;
+    if (!source.slice(lineStart, from).trim()) from = lineStart;
+    return dedent(splice(from, end(positioned.at(-1)!), positioned)).trim();
+  };
+
+  const renderElement = (node: JsxElement): string => {
+    const props = getProps(node, source);
+    const children = () => renderFragment(node.children);
+
+    switch (node.name) {
+      case "Callout": {
+        const alert = getAlertType(String(props.variant ?? "note"));
+        const body = [`[!${alert}]`];
+        if (typeof props.title === "string") body.push(`**${props.title}**`);
+        body.push(children());
+        return body
+          .join("\n")
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n");
+      }
+      case "Card": {
+        const title = String(props.title ?? "");
+        const link = props.href
+          ? `[${title}](${destination(resolveUrl(String(props.href)))})`
+          : `**${title}**`;
+        const eyebrow = props.eyebrow ? ` (${props.eyebrow})` : "";
+        const description = children().replace(/\s*\n\s*/g, " ");
+        return `- ${link}${eyebrow}${description ? `: ${description}` : ""}`;
+      }
+      case "DocCard": {
+        const item = (props.item ?? {}) as Props;
+        const description = item.description ? ` — ${item.description}` : "";
+        return `- [${item.label}](${destination(resolveUrl(String(item.href)))})${description}`;
+      }
+      case "SectionLinks": {
+        const links = (
+          Array.isArray(props.links) ? props.links : []
+        ) as Props[];
+        return [
+          `**${props.title}**`,
+          links
+            .map(
+              (link) =>
+                `- [${link.label}](${destination(resolveUrl(String(link.href)))})` +
+                (link.description ? ` — ${link.description}` : ""),
+            )
+            .join("\n"),
+        ].join("\n\n");
+      }
+      case "Steps":
+        return node.children
+          .filter((child) => child.position)
+          .map(
+            (child, index) =>
+              `${index + 1}. ${indentContinuation(renderFragment([child]), "   ")}`,
+          )
+          .join("\n\n");
+      case "MultiCode": {
+        // Fenced code block children are Markdown already, but for the
+        // colour escapes of output.
+        if (!Array.isArray(props.tabs)) {
+          return node.children
+            .map((child) =>
+              child.type === "code" && OUTPUT_FLAG.test(child.meta ?? "")
+                ? fence("bash", stripAnsi(child.value), { title: "Output" })
+                : renderFragment([child]),
+            )
+            .filter(Boolean)
+            .join("\n\n");
+        }
+        const tabs = props.tabs as Props[];
+        return renderCodeTabs(
+          tabs.map((tab) => ({
+            label: String(tab.label),
+            language: String(tab.language),
+            filename: tab.filename as string | undefined,
+            example: { code: tab.code as string, output: tab.output as string },
+          })),
+        );
+      }
+      case "CodeTabs": {
+        const example = (props.example ?? {}) as Record<string, CodeExample>;
+        return renderCodeTabs([
+          {
+            label: "TypeScript",
+            language: "typescript",
+            filename: (props.tsFilename as string | undefined) ?? "index.ts",
+            example: example.typescript,
+          },
+          {
+            label: "Rust",
+            language: "rust",
+            filename: (props.rustFilename as string | undefined) ?? "main.rs",
+            example: example.rust,
+          },
+        ]);
+      }
+      case "CodeSdkTabs": {
+        const example = (props.example ?? {}) as Record<string, CodeExample>;
+        const tab = (
+          label: string,
+          filename: string,
+          fallback: string,
+          code?: CodeExample,
+        ): CodeTab => ({
+          label,
+          filename,
+          language: filename.endsWith(".tsx")
+            ? "tsx"
+            : filename.endsWith(".ts")
+              ? "ts"
+              : fallback,
+          example: code && {
+            ...code,
+            code: code.code && preserveIndent(code.code),
+          },
+        });
+        return renderCodeTabs([
+          tab(
+            "React",
+            (props.reactFilename as string | undefined) ?? "index.tsx",
+            "tsx",
+            example.react,
+          ),
+          tab(
+            "TypeScript",
+            (props.tsFilename as string | undefined) ?? "index.ts",
+            "ts",
+            example.typescript,
+          ),
+        ]);
+      }
+      case "CodeFromFile": {
+        const snippet = loadSnippet(getSnippetRequest(props));
+        return fence(
+          typeof props.language === "string"
+            ? props.language
+            : snippet.language,
+          snippet.code,
+          {
+            title: typeof props.title === "string" ? props.title : snippet.path,
+          },
+        );
+      }
+      case "TerminalOutput": {
+        // A fence with the output, or two to diff, as in the component.
+        const fences = node.children.flatMap((child) =>
+          child.type === "code" ? [child] : [],
+        );
+        const [before, output] =
+          fences.length > 1
+            ? fences.map((code) => code.value)
+            : [props.before, fences[0]?.value ?? props.output];
+        if (typeof output !== "string") break;
+        const title = typeof props.title === "string" ? props.title : undefined;
+        return typeof before === "string"
+          ? fence(
+              "diff",
+              formatDiff(
+                stripAnsi(before).split("\n"),
+                stripAnsi(output).split("\n"),
+              ),
+              { title },
+            )
+          : fence("text", stripAnsi(output), { title: title ?? "Output" });
+      }
+      case "TabItem":
+        return `**${props.label ?? props.value}**\n\n${children()}`;
+      case "Badge":
+        return children();
+      case "Kbd":
+        return `<kbd>${children()}</kbd>`;
+      case "a":
+        if (typeof props.href !== "string") break;
+        return `[${children()}](${destination(resolveUrl(props.href))})`;
+      case "img":
+        if (typeof props.src !== "string") break;
+        return `![${props.alt ?? ""}](${destination(resolveUrl(props.src))})`;
+    }
+
+    if (
+      node.name &&
+      /^[a-z]/.test(node.name) &&
+      !LAYOUT_ELEMENTS.has(node.name)
+    ) {
+      // Plain HTML (details, summary, img, …) is valid Markdown as is.
+      return splice(start(node), end(node), node.children);
+    }
+    // Tabs, CardGrid, fragments, layout wrappers and unknown components.
+    return children();
+  };
+
+  const render = (node: Nodes): string => {
+    switch (node.type) {
+      case "mdxjsEsm":
+        return "";
+      case "mdxFlowExpression":
+      case "mdxTextExpression":
+        return COMMENT_EXPRESSION.test(node.value)
+          ? ""
+          : source.slice(start(node), end(node));
+      case "mdxJsxFlowElement":
+      case "mdxJsxTextElement":
+        return renderElement(node);
+      case "link": {
+        // Autolinks (`<https://…>`, bare URLs) are absolute already.
+        if (!source.slice(start(node), end(node)).endsWith(")")) break;
+        const label = node.children.length
+          ? splice(
+              start(node.children[0]),
+              end(node.children.at(-1)!),
+              node.children,
+            )
+          : "";
+        return `[${label}](${destination(resolveUrl(node.url), node.title)})`;
+      }
+      case "image":
+        if (!source.slice(start(node), end(node)).endsWith(")")) break;
+        return `![${node.alt ?? ""}](${destination(resolveUrl(node.url), node.title)})`;
+      case "definition":
+        return `[${node.label ?? node.identifier}]: ${destination(resolveUrl(node.url), node.title)}`;
+    }
+    return "children" in node
+      ? splice(start(node), end(node), node.children as RootContent[])
+      : source.slice(start(node), end(node));
+  };
+
+  return `${splice(0, source.length, tree.children).trim()}\n`;
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import { readSnippet } from "../code-from-file/snippet";
+import { getDocsContent } from "../utils/sidebars";
+import { flattenMdx } from "./flatten";
+import {
+  createUrlResolver,
+  getPermalinksBySource,
+  readPageHtml,
+  type DocSource,
+} from "./resolveUrl";
+import { getMarkdownSourcePath } from "./sourcePath";
+
+/**
+ * Emits the authored Markdown of every doc, in every version, next to its
+ * HTML page as `<route>.md` (see ./sourcePath.ts), with MDX components
+ * flattened to plain Markdown (see ./flatten.ts) and links and images made
+ * absolute (see ./resolveUrl.ts).
+ *
+ * The CopyPageButton fetches this instead of converting the rendered HTML
+ * back to Markdown, which loses front matter, mermaid and KaTeX source and
+ * anything rendered by a component. It is only written on build; the button
+ * falls back to the HTML conversion on the dev server.
+ */
+export default function markdownSourcePlugin(context: LoadContext): Plugin {
+  let docSources: DocSource[] = [];
+  let permalinksBySource = new Map<string, string>();
+  const { organizationName, projectName } = context.siteConfig;
+  const siteRepo = `${organizationName}/${projectName}`;
+
+  return {
+    name: "markdown-source",
+
+    async allContentLoaded({ allContent }) {
+      const docs = getDocsContent(allContent);
+      docSources = (docs?.loadedVersions ?? []).flatMap((version) =>
+        version.docs.map(({ source, permalink }) => ({ source, permalink })),
+      );
+      permalinksBySource = getPermalinksBySource(context.siteDir, docSources);
+    },
+
+    async postBuild({ outDir }) {
+      for (const { source, permalink } of docSources) {
+        const markdown = await fs.readFile(
+          path.join(context.siteDir, source.replace(/^@site\//, "")),
+          "utf8",
+        );
+        const resolveUrl = createUrlResolver({
+          siteDir: context.siteDir,
+          siteUrl: context.siteConfig.url,
+          source,
+          permalink,
+          permalinksBySource,
+          html: await readPageHtml(outDir, permalink),
+        });
+        let flattened: string;
+        try {
+          flattened = await flattenMdx(markdown, resolveUrl, (request) =>
+            readSnippet(context.siteDir, siteRepo, request),
+          );
+        } catch (error) {
+          throw new Error(
+            `${source}: could not flatten MDX for ${getMarkdownSourcePath(permalink)}: ${(error as Error).message}`,
+          );
+        }
+        const file = path.join(outDir, getMarkdownSourcePath(permalink));
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, flattened);
+      }
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import { toAbsoluteUrl } from "./absoluteUrl";
+
+export type UrlResolver = (url: string) => string;
+
+type DocUrlContext = {
+  siteDir: string;
+  siteUrl: string;
+  /** `@site/`-relative source file of the doc the URLs appear in. */
+  source: string;
+  permalink: string;
+  /** Permalinks of the docs of all versions, by absolute source path. */
+  permalinksBySource: Map<string, string>;
+  /** The doc's prerendered HTML, which has the emitted URLs of its assets. */
+  html: string;
+};
+
+export type DocSource = {
+  /** `@site/`-relative source file, as in the doc metadata. */
+  source: string;
+  permalink: string;
+};
+
+/** Permalinks of docs by absolute source path, for links to `.md` files. */
+export function getPermalinksBySource(
+  siteDir: string,
+  docs: DocSource[],
+): Map<string, string> {
+  return new Map(
+    docs.map(({ source, permalink }) => [
+      path.join(siteDir, source.replace(/^@site\//, "")),
+      permalink,
+    ]),
+  );
+}
+
+/** A doc's prerendered HTML in the build output, or "" if there is none. */
+export async function readPageHtml(
+  outDir: string,
+  permalink: string,
+): Promise<string> {
+  try {
+    return await fs.readFile(
+      path.join(outDir, permalink, "index.html"),
+      "utf8",
+    );
+  } catch {
+    return "";
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Resolves the URLs of a doc's links and images the way Docusaurus does
+ * when it renders the doc, then makes them absolute (see ./absoluteUrl.ts):
+ * links to `.md` files become the linked doc's permalink, and relative
+ * images and files become the hashed `/assets/…` URL they were emitted at.
+ * Images small enough to be inlined into the page have no URL of their own
+ * and resolve against the page like any other relative URL.
+ */
+export function createUrlResolver({
+  siteDir,
+  siteUrl,
+  source,
+  permalink,
+  permalinksBySource,
+  html,
+}: DocUrlContext): UrlResolver {
+  const sourceDir = path.dirname(
+    path.join(siteDir, source.replace(/^@site\//, "")),
+  );
+
+  return (url) => {
+    const [, target, suffix] = url.match(/^([^?#]*)(.*)$/)!;
+    if (target && !target.startsWith("/") && !/^[a-z][a-z\d+.-]*:/i.test(url)) {
+      const file = path.resolve(sourceDir, target.replace(/%20/g, " "));
+      if (/\.mdx?$/.test(target)) {
+        const linked = permalinksBySource.get(file);
+        if (linked) return new URL(`${linked}${suffix}`, siteUrl).href;
+      } else if (existsSync(file)) {
+        const { name, ext } = path.parse(file);
+        const asset = html.match(
+          new RegExp(
+            `/assets/(?:images|files)/${escapeRegExp(name)}-[\\da-f]+${escapeRegExp(ext)}`,
+          ),
+        )?.[0];
+        if (asset) return new URL(asset, siteUrl).href;
+      }
+    }
+    return toAbsoluteUrl(url, permalink, siteUrl);
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Path of the Markdown source emitted for a doc route: `/builder/glossary`
+ * and `/builder/glossary/` → `/builder/glossary.md`, `/` → `/index.md`.
+ */
+export function getMarkdownSourcePath(pathname: string): string {
+  return `${pathname.replace(/\/+$/, "") || "/index"}.md`;
+}
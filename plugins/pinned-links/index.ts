@@ -0,0 +1,44 @@
+import type { Plugin } from "@docusaurus/types";
+import { collectItemPermalinks, getDocsContent } from "../utils/sidebars";
+
+const trimSlash = (pathname: string) => pathname.replace(/\/+$/, "") || "/";
+
+/** Routes of the latest docs version, without trailing slashes. */
+const latestRoutes = new Set<string>();
+
+/**
+ * Whether a route belongs to the latest docs version, which the heading
+ * menu links to as `/<latest>/…` (see `createRedirects` in
+ * docusaurus.config.ts). Only known once the docs are loaded, which is
+ * before @docusaurus/plugin-client-redirects collects redirects.
+ */
+export function isLatestDocRoute(pathname: string): boolean {
+  return latestRoutes.has(trimSlash(pathname));
+}
+
+/**
+ * Collects the doc and generated category index routes of the latest docs
+ * version, so version-pinned redirects are made for those routes only
+ * rather than for every page of the site.
+ */
+export default function pinnedLinksPlugin(): Plugin {
+  return {
+    name: "pinned-links",
+
+    async allContentLoaded({ allContent }) {
+      const docs = getDocsContent(allContent);
+      const latest = docs?.loadedVersions.find((version) => version.isLast);
+      latestRoutes.clear();
+      if (!latest) return;
+      const permalinks = [
+        ...latest.docs.map((doc) => doc.permalink),
+        // Generated category indexes are only known from the sidebars.
+        ...Object.values(latest.sidebars).flatMap((items) =>
+          items.flatMap((item) => collectItemPermalinks(item, latest)),
+        ),
+      ];
+      for (const permalink of permalinks)
+        latestRoutes.add(trimSlash(permalink));
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import {
+  collectItemPermalinks,
+  getDocsContent,
+  getSectionDividerLabel,
+  getSidebarNavbarLabels,
+  getVersionSearchTag,
+  slugify,
+} from "../utils/sidebars";
+
+export type SearchFacet = {
+  id: string;
+  label: string;
+};
+
+export type SearchFacetsGlobalData = {
+  facets: SearchFacet[];
+};
+
+/**
+ * Search facets derived from the sidebar structure.
+ *
+ * Every top-level sidebar item is assigned to a facet: the label of the
+ * closest preceding `sidebar-section` html divider (Getting Started, Build,
+ * Solutions, Reference in the builder sidebar), or the sidebar's navbar label
+ * when it has no dividers (Core Concepts). The facet list is published as
+ * global data; the route → facet map is written next to each version's
+ * search index as `search-facets-<tag>.json`, since it is only needed once
+ * the index itself is loaded.
+ */
+export default function searchFacetsPlugin(context: LoadContext): Plugin {
+  const routesByTag = new Map<string, Record<string, string>>();
+
+  return {
+    name: "search-facets",
+
+    async allContentLoaded({ allContent, actions }) {
+      const docs = getDocsContent(allContent);
+      if (!docs) return;
+
+      const navbarLabels = getSidebarNavbarLabels(context.siteConfig);
+      const facets = new Map<string, SearchFacet>();
+      routesByTag.clear();
+
+      for (const version of docs.loadedVersions) {
+        const routes: Record<string, string> = {};
+        for (const [sidebarId, items] of Object.entries(version.sidebars)) {
+          let label = navbarLabels[sidebarId] ?? sidebarId;
+          for (const item of items) {
+            const divider = getSectionDividerLabel(item);
+            if (divider) {
+              label = divider;
+              continue;
+            }
+            const permalinks = collectItemPermalinks(item, version);
+            if (permalinks.length === 0) continue;
+
+            const facet = { id: slugify(label), label };
+            facets.set(facet.id, facet);
+            for (const permalink of permalinks) {
+              // A doc listed in two places keeps its first (primary) facet.
+              routes[permalink] ??= facet.id;
+            }
+          }
+        }
+        routesByTag.set(getVersionSearchTag(version.versionName), routes);
+      }
+
+      const data: SearchFacetsGlobalData = { facets: [...facets.values()] };
+      actions.setGlobalData(data);
+    },
+
+    async postBuild({ outDir }) {
+      await Promise.all(
+        [...routesByTag].map(([tag, routes]) =>
+          fs.writeFile(
+            path.join(outDir, `search-facets-${tag}.json`),
+            JSON.stringify(routes),
+          ),
+        ),
+      );
+    },
+  };
+}
@@ -0,0 +1,278 @@
+import { promises as fs } from "fs";
+import path from "path";
+import * as cheerio from "cheerio";
+import type {
+  LoadContext,
+  OptionValidationContext,
+  Plugin,
+  PluginModule,
+  PluginOptions,
+} from "@docusaurus/types";
+import searchLocalPlugin, {
+  validateOptions as validateSearchLocalOptions,
+} from "@cmfcmf/docusaurus-search-local";
+// Plugin internals; package.json pins the plugin's exact version for them.
+import {
+  getDocusaurusTag,
+  html2text,
+} from "@cmfcmf/docusaurus-search-local/lib/server/parse";
+// The lunr build the plugin's client loads serialized indexes with.
+import lunr from "@cmfcmf/docusaurus-search-local/lib/lunr.js";
+import { tokenizeForIndex } from "./tokenizer";
+
+type SearchIndexOptions = PluginOptions & {
+  includeParentCategoriesInPageTitle: boolean;
+  indexDocSidebarParentCategories: number;
+  /** Boost for exact matches inside code blocks. */
+  codeBoost: number;
+  lunr: { b: number; k1: number };
+};
+
+type IndexedSection = {
+  id: number;
+  pageTitle: string;
+  sectionTitle: string;
+  sectionRoute: string;
+  sectionContent: string;
+  sectionCode: string;
+  sectionTags: string[];
+  docSidebarParentCategories?: string[];
+};
+
+const DEFAULT_CODE_BOOST = 10;
+
+function trimSlashes(value: string | undefined): string {
+  return (value ?? "").replace(/^\/|\/$/g, "");
+}
+
+function matchesPrefix(route: string, prefix: string): boolean {
+  return prefix === "" || route === prefix || route.startsWith(`${prefix}/`);
+}
+
+/**
+ * Split a rendered page into prose (code blocks removed) and the code of
+ * each section, keyed by the section's heading hash.
+ */
+function splitCode(html: string): {
+  proseHtml: string;
+  codeByHash: Map<string, string>;
+} {
+  const $ = cheerio.load(html);
+  const codeByHash = new Map<string, string>();
+  let hash = "";
+  $("article")
+    .find("h1, h2, h3, pre")
+    .each((_, element) => {
+      const $element = $(element);
+      if (!$element.is("pre")) {
+        const href = $element.find("a.hash-link").attr("href") ?? "";
+        hash = href.includes("#") ? href.slice(href.indexOf("#")) : "";
+        return;
+      }
+      const lines = $element.find(".token-line");
+      const code = lines.length
+        ? lines
+            .map((_, line) => $(line).text())
+            .get()
+            .join("\n")
+        : $element.text();
+      codeByHash.set(
+        hash,
+        [codeByHash.get(hash), code].filter(Boolean).join("\n"),
+      );
+    });
+  $("article pre").remove();
+  return { proseHtml: $.html(), codeByHash };
+}
+
+/**
+ * Lunr tokenizer that understands code identifiers (see ./tokenizer). Only
+ * the token strings matter: the index stores no position metadata.
+ */
+function identifierTokenizer(value: unknown, metadata?: object) {
+  if (value === null || value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => tokenizeForIndex(String(item)))
+    .map(
+      (token, index) =>
+        new lunr.Token(token, { ...lunr.utils.clone(metadata), index }),
+    );
+}
+
+/**
+ * Wraps @cmfcmf/docusaurus-search-local and replaces its index build.
+ *
+ * Upstream tokenizes on a single separator regex, so
+ * `miden::active_account::get_item` or `AccountComponent::new` can't be found
+ * by their parts. Here every identifier is indexed whole and split on `::`,
+ * `.`, `_` and camelCase, and code blocks get their own `code` field so exact
+ * matches in code rank above prose mentions (`codeBoost`).
+ *
+ * Everything else — the SearchBar theme, the generated client lunr module,
+ * global data — is the upstream plugin's. Only docs are indexed, and only
+ * for the default (English) lunr pipeline.
+ */
+export default function searchIndexPlugin(
+  context: LoadContext,
+  options: SearchIndexOptions,
+): Plugin {
+  const upstream = searchLocalPlugin(context, options) as Plugin;
+  const {
+    codeBoost,
+    includeParentCategoriesInPageTitle,
+    indexDocSidebarParentCategories,
+    lunr: { b, k1 },
+  } = options;
+
+  return {
+    ...upstream,
+
+    async contentLoaded(args) {
+      // Publish codeBoost alongside the upstream boosts for the SearchBar.
+      await upstream.contentLoaded?.({
+        ...args,
+        actions: {
+          ...args.actions,
+          setGlobalData: (data) =>
+            args.actions.setGlobalData({ ...(data as object), codeBoost }),
+        },
+      });
+    },
+
+    async postBuild({ routesPaths, outDir, baseUrl, siteConfig, plugins }) {
+      const docsPlugins = plugins.filter(
+        (plugin) => plugin.name === "docusaurus-plugin-content-docs",
+      );
+
+      // Same route selection as upstream: every docs route except tag pages
+      // and the debug plugin's pages.
+      const urls = routesPaths.filter((url) => {
+        const route = url.substring(baseUrl.length);
+        if (route === "404.html") return false;
+        return docsPlugins.some(({ options }) => {
+          const basePath = trimSlashes(options.routeBasePath as string);
+          if (!matchesPrefix(route, basePath)) return false;
+          const tagsPath = trimSlashes(
+            `${basePath}/${trimSlashes(options.tagsBasePath as string)}`,
+          );
+          return (
+            !matchesPrefix(route, tagsPath) &&
+            !matchesPrefix(route, trimSlashes(`${basePath}/__docusaurus`))
+          );
+        });
+      });
+
+      let nextDocId = 1;
+      const sectionsByTag = new Map<string, IndexedSection[]>();
+      for (const url of urls) {
+        const route = url.substring(baseUrl.length);
+        const file =
+          siteConfig.trailingSlash === false
+            ? path.join(outDir, `${route === "" ? "index" : route}.html`)
+            : path.join(outDir, route, "index.html");
+        const html = await fs.readFile(file, "utf8");
+        const { proseHtml, codeByHash } = splitCode(html);
+        const { pageTitle, sections, docSidebarParentCategories } = html2text(
+          proseHtml,
+          "docs",
+          url,
+        );
+
+        const tag = getDocusaurusTag(html);
+        const indexed = sectionsByTag.get(tag) ?? [];
+        sectionsByTag.set(tag, indexed);
+        for (const section of sections) {
+          indexed.push({
+            id: nextDocId++,
+            pageTitle,
+            sectionTitle: section.title,
+            sectionRoute: url + section.hash,
+            sectionContent: section.content,
+            // A hash can repeat (the page title and any intro text share ""),
+            // so each block of code is claimed by the first matching section.
+            sectionCode: codeByHash.get(section.hash) ?? "",
+            sectionTags: section.tags,
+            docSidebarParentCategories,
+          });
+          codeByHash.delete(section.hash);
+        }
+      }
+
+      await Promise.all(
+        [...sectionsByTag].map(async ([tag, sections]) => {
+          const index = lunr(function () {
+            this.tokenizer = identifierTokenizer;
+            this.k1(k1);
+            this.b(b);
+            this.ref("id");
+            this.field("title");
+            this.field("content");
+            this.field("code");
+            this.field("tags");
+            if (indexDocSidebarParentCategories > 0) {
+              this.field("sidebarParentCategories");
+            }
+            for (const section of sections) {
+              this.add({
+                id: section.id.toString(),
+                title: section.sectionTitle,
+                content: section.sectionContent,
+                code: section.sectionCode,
+                tags: section.sectionTags,
+                sidebarParentCategories:
+                  indexDocSidebarParentCategories > 0
+                    ? [...(section.docSidebarParentCategories ?? [])]
+                        .reverse()
+                        .slice(0, indexDocSidebarParentCategories)
+                        .join(" ")
+                    : undefined,
+              });
+            }
+          });
+
+          const documents = sections.map((section) => ({
+            id: section.id,
+            pageTitle:
+              includeParentCategoriesInPageTitle &&
+              section.docSidebarParentCategories?.length
+                ? [
+                    ...section.docSidebarParentCategories,
+                    section.pageTitle,
+                  ].join(" > ")
+                : section.pageTitle,
+            sectionTitle: section.sectionTitle,
+            sectionRoute: section.sectionRoute,
+            type: "docs",
+          }));
+          await fs.writeFile(
+            path.join(outDir, `search-index-${tag}.json`),
+            JSON.stringify({ documents, index }),
+          );
+        }),
+      );
+    },
+  };
+}
+
+export function validateOptions({
+  options,
+  validate,
+}: OptionValidationContext<
+  Record<string, unknown>,
+  SearchIndexOptions
+>): SearchIndexOptions {
+  const { codeBoost = DEFAULT_CODE_BOOST, ...rest } = options;
+  const validated = validateSearchLocalOptions({ options: rest, validate });
+  if (validated.indexBlog || validated.indexPages) {
+    throw new Error(
+      "search-index only indexes docs; set indexBlog and indexPages to false.",
+    );
+  }
+  return { ...validated, codeBoost };
+}
+
+// Docusaurus reads validateOptions off the plugin function itself when the
+// plugin is passed by reference rather than by module path.
+searchIndexPlugin.validateOptions =
+  validateOptions as PluginModule["validateOptions"];
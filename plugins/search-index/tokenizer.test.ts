@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  expandIdentifier,
+  identifiers,
+  tokenizeForIndex,
+  tokenizeQuery,
+} from "./tokenizer";
+
+describe("identifiers", () => {
+  it("keeps paths chained with :: or . together", () => {
+    expect(
+      identifiers("call exec.::miden::foo then AccountComponent::new()"),
+    ).toEqual(["call", "exec.::miden::foo", "then", "AccountComponent::new"]);
+  });
+});
+
+describe("expandIdentifier", () => {
+  it("indexes the identifier, its suffixes, segments and words", () => {
+    expect(expandIdentifier("exec.active_account::get_item")).toEqual([
+      "exec.active_account::get_item",
+      "active_account::get_item",
+      "get_item",
+      "exec",
+      "active_account",
+      "active",
+      "account",
+      "get",
+      "item",
+    ]);
+  });
+
+  it("splits camelCase and acronyms into words", () => {
+    expect(expandIdentifier("AccountComponent")).toEqual([
+      "accountcomponent",
+      "account",
+      "component",
+    ]);
+    expect(expandIdentifier("RPCClient")).toEqual([
+      "rpcclient",
+      "rpc",
+      "client",
+    ]);
+  });
+});
+
+describe("tokenizeForIndex", () => {
+  it("splits version numbers at the dots", () => {
+    expect(tokenizeForIndex("v0.14.6")).toEqual([
+      "v0.14.6",
+      "14.6",
+      "6",
+      "v0",
+      "14",
+    ]);
+  });
+
+  it("splits abbreviations at the dots", () => {
+    expect(tokenizeForIndex("e.g")).toEqual(["e.g", "g", "e"]);
+  });
+});
+
+describe("tokenizeQuery", () => {
+  it("keeps the identifier and its path segments, not its words", () => {
+    expect(tokenizeQuery("miden::active_account::get_item")).toEqual([
+      "miden::active_account::get_item",
+      "miden",
+      "active_account",
+      "get_item",
+    ]);
+  });
+
+  it("splits version numbers into v0, 14 and 6", () => {
+    expect(tokenizeQuery("v0.14.6")).toEqual(["v0.14.6", "v0", "14", "6"]);
+  });
+
+  it("splits e.g into e and g", () => {
+    expect(tokenizeQuery("e.g")).toEqual(["e.g", "e", "g"]);
+  });
+
+  it("lowercases and drops duplicates", () => {
+    expect(tokenizeQuery("Note note NOTE")).toEqual(["note"]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Identifier-aware tokenization shared by the index builder (Node) and the
+ * SearchBar (browser), so both sides agree on what a token is.
+ *
+ * Words are runs of letters, digits and `_`, optionally chained with `::` or
+ * `.` — so `miden::active_account::get_item`, `AccountComponent::new` and
+ * `exec.::miden::foo` each come out as one identifier rather than being cut
+ * at punctuation.
+ */
+
+const IDENTIFIER = /[\p{L}\p{N}_]+(?:(?:::|\.)+[\p{L}\p{N}_]+)*/gu;
+const PATH_SEPARATOR = /(?:::|\.)+/g;
+
+function splitWords(segment: string): string[] {
+  return segment
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[\s_]+/);
+}
+
+/** Identifiers in `input`, as written (case preserved). */
+export function identifiers(input: string): string[] {
+  return input.match(IDENTIFIER) ?? [];
+}
+
+/**
+ * Every token an identifier is indexed under, lowercased: the identifier
+ * itself, each path suffix after a `::`/`.` separator, each path segment,
+ * and each `_`/camelCase word.
+ *
+ * `exec.active_account::get_item` → `exec.active_account::get_item`,
+ * `active_account::get_item`, `get_item`, `exec`, `active_account`, `get`,
+ * `item`, `active`, `account`.
+ */
+export function expandIdentifier(identifier: string): string[] {
+  const suffixes = [...identifier.matchAll(PATH_SEPARATOR)].map((separator) =>
+    identifier.slice(separator.index! + separator[0].length),
+  );
+  const segments = identifier.split(PATH_SEPARATOR);
+  const tokens = [
+    identifier,
+    ...suffixes,
+    ...segments,
+    ...segments.flatMap(splitWords),
+  ];
+  return [
+    ...new Set(tokens.filter(Boolean).map((token) => token.toLowerCase())),
+  ];
+}
+
+/** Tokens to index for a field value. */
+export function tokenizeForIndex(input: string): string[] {
+  return identifiers(input).flatMap(expandIdentifier);
+}
+
+/**
+ * Query terms for search input: each identifier plus its path segments. The
+ * `_`/camelCase words are left out — the index already holds the whole
+ * identifier, so matching on `get` or `item` alone would only add noise.
+ */
+export function tokenizeQuery(input: string): string[] {
+  const terms = identifiers(input).flatMap((identifier) => [
+    identifier,
+    ...identifier.split(PATH_SEPARATOR),
+  ]);
+  return [...new Set(terms.filter(Boolean).map((term) => term.toLowerCase()))];
+}
@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import { getDocsContent } from "../utils/sidebars";
+import { normalizePhrase, type SynonymMap } from "./synonyms";
+
+export type SearchSynonymsGlobalData = {
+  synonyms: SynonymMap;
+};
+
+const GLOSSARY_DOC_ID = "builder/glossary";
+const TERM_HEADING = /^###\s+(.+?)\s*$/gm;
+
+/**
+ * Search synonyms derived from the glossary (docs/builder/glossary.md).
+ *
+ * Every `###` heading in the glossary is a term. The glossary's front matter
+ * can list `aliases:` per term — the words people bring from other chains
+ * ("UTXO", "EOA", "gas") — and the SearchBar expands a query containing an
+ * alias with its term. Aliases for a term that isn't in the glossary fail
+ * the build, so renaming a heading can't silently drop them.
+ *
+ * All docs versions are merged, the current version first, so aliases only
+ * need to be kept in docs/.
+ */
+export default function searchSynonymsPlugin(context: LoadContext): Plugin {
+  return {
+    name: "search-synonyms",
+
+    async allContentLoaded({ allContent, actions }) {
+      const docs = getDocsContent(allContent);
+      if (!docs) return;
+
+      const synonyms: SynonymMap = {};
+      for (const version of docs.loadedVersions) {
+        const glossary = version.docs.find((doc) => doc.id === GLOSSARY_DOC_ID);
+        if (!glossary) continue;
+
+        const source = await fs.readFile(
+          path.join(context.siteDir, glossary.source.replace(/^@site\//, "")),
+          "utf8",
+        );
+        const terms = new Set(
+          [...source.matchAll(TERM_HEADING)].map(([, term]) => term),
+        );
+        const aliases = (glossary.frontMatter as { aliases?: unknown }).aliases;
+        if (aliases === undefined) continue;
+        if (typeof aliases !== "object" || aliases === null) {
+          throw new Error(
+            `${glossary.source}: \`aliases\` must map glossary terms to lists of aliases.`,
+          );
+        }
+
+        for (const [term, list] of Object.entries(aliases)) {
+          if (!terms.has(term)) {
+            throw new Error(
+              `${glossary.source}: \`aliases\` lists "${term}", which is not a glossary term (### heading).`,
+            );
+          }
+          if (
+            !Array.isArray(list) ||
+            !list.every((alias) => typeof alias === "string")
+          ) {
+            throw new Error(
+              `${glossary.source}: \`aliases.${term}\` must be a list of strings.`,
+            );
+          }
+          for (const alias of list) {
+            synonyms[normalizePhrase(alias)] ??= term;
+          }
+        }
+      }
+
+      const data: SearchSynonymsGlobalData = { synonyms };
+      actions.setGlobalData(data);
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { expandSynonyms, normalizePhrase } from "./synonyms";
+
+const synonyms = {
+  utxo: "Note",
+  "smart wallet": "Account",
+  masm: "Miden Assembly",
+};
+
+describe("normalizePhrase", () => {
+  it("lowercases and single-spaces the words", () => {
+    expect(normalizePhrase("Smart  Wallet")).toBe("smart wallet");
+  });
+});
+
+describe("expandSynonyms", () => {
+  it("appends the term of a matched alias", () => {
+    expect(expandSynonyms("UTXO model", synonyms)).toEqual({
+      query: "UTXO model Note",
+      terms: ["Note"],
+    });
+  });
+
+  it("matches aliases of several words", () => {
+    expect(expandSynonyms("create a smart wallet", synonyms).terms).toEqual([
+      "Account",
+    ]);
+  });
+
+  it("matches whole words only", () => {
+    expect(expandSynonyms("utxos", synonyms).terms).toEqual([]);
+    expect(expandSynonyms("smart wallets", synonyms).terms).toEqual([]);
+  });
+
+  it("skips terms the input already has", () => {
+    expect(expandSynonyms("MASM vs Miden Assembly", synonyms).terms).toEqual(
+      [],
+    );
+  });
+
+  it("leaves input without aliases as it is", () => {
+    expect(expandSynonyms("nullifier", synonyms)).toEqual({
+      query: "nullifier",
+      terms: [],
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { identifiers } from "../search-index/tokenizer";
+
+/** Normalized alias (see `normalizePhrase`) → glossary term. */
+export type SynonymMap = Record<string, string>;
+
+export type SynonymExpansion = {
+  /** The input with the glossary term of every matched alias appended. */
+  query: string;
+  /** Glossary terms the input was expanded to, in match order. */
+  terms: string[];
+};
+
+/** Lowercased words of a phrase, single-spaced: "Smart  Wallet" → "smart wallet". */
+export function normalizePhrase(phrase: string): string {
+  return identifiers(phrase)
+    .map((word) => word.toLowerCase())
+    .join(" ");
+}
+
+/**
+ * Expand search input with the glossary terms its aliases stand for, so
+ * "UTXO" also searches for "Note". Aliases match whole words only; the
+ * original words stay in the query, since they may appear in the docs too.
+ */
+export function expandSynonyms(
+  input: string,
+  synonyms: SynonymMap,
+): SynonymExpansion {
+  const normalized = ` ${normalizePhrase(input)} `;
+  const terms = new Set<string>();
+  for (const [alias, term] of Object.entries(synonyms)) {
+    if (
+      normalized.includes(` ${alias} `) &&
+      !normalized.includes(` ${normalizePhrase(term)} `)
+    ) {
+      terms.add(term);
+    }
+  }
+  return {
+    query: [input, ...terms].join(" "),
+    terms: [...terms],
+  };
+}
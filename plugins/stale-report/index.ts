@@ -0,0 +1,250 @@
+import { execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  DocMetadata,
+  LoadedVersion,
+} from "@docusaurus/plugin-content-docs";
+import type { LoadContext, Plugin } from "@docusaurus/types";
+import logger from "@docusaurus/logger";
+import {
+  getDocsContent,
+  getSidebarNavbarLabels,
+  type SidebarItem,
+} from "../utils/sidebars";
+import { findIngested } from "../utils/ingested";
+import { readReleaseManifest } from "../utils/releaseManifest";
+import {
+  checksAge,
+  describeStaleReason,
+  getStaleReasons,
+  parseAppliesTo,
+  type StalenessPolicy,
+  type StaleReason,
+} from "../utils/staleness";
+
+type StalePage = {
+  doc: DocMetadata;
+  reasons: StaleReason[];
+};
+
+type VersionReport = {
+  version: LoadedVersion;
+  /** Stale pages by sidebar category trail, in sidebar order. */
+  categories: Map<string, StalePage[]>;
+};
+
+const REPORT_FILE = "stale-report.md";
+
+const NO_CATEGORY = "Not in a sidebar";
+
+/** Milliseconds since the epoch of the last commit of each doc, by doc id. */
+export type VersionLastUpdates = Record<string, number>;
+
+/**
+ * When each file under `dir` was last committed, by path relative to
+ * `cwd`: one `git log` for the whole directory rather than one per doc.
+ * Empty without git; files git doesn't track are left out.
+ */
+function getLastCommitDates(cwd: string, dir: string): Map<string, number> {
+  const dates = new Map<string, number>();
+  let log: string;
+  try {
+    log = execFileSync(
+      "git",
+      ["log", "--format=%x00%ct", "--name-only", "--relative", "--", dir],
+      {
+        cwd,
+        encoding: "utf8",
+        maxBuffer: 256 * 1024 * 1024,
+        stdio: ["ignore", "pipe", "ignore"],
+      },
+    );
+  } catch {
+    return dates;
+  }
+  let date = 0;
+  for (const line of log.split("\n")) {
+    if (line.startsWith("\0")) {
+      date = Number(line.slice(1)) * 1000;
+    } else if (line && !dates.has(line)) {
+      // Newest commits come first.
+      dates.set(line, date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Last commit dates of the docs of a version whose age is checked, leaving
+ * out ingested docs: they are copies whose history lives in another repo.
+ */
+function getLastUpdates(
+  siteDir: string,
+  version: LoadedVersion,
+): VersionLastUpdates {
+  const dates = getLastCommitDates(
+    siteDir,
+    path.relative(siteDir, version.contentPath),
+  );
+  const lastUpdates: VersionLastUpdates = {};
+  for (const doc of version.docs) {
+    if (findIngested(doc.source)) continue;
+    const date = dates.get(doc.source.replace(/^@site\//, ""));
+    if (date) lastUpdates[doc.id] = date;
+  }
+  return lastUpdates;
+}
+
+/**
+ * Sidebar category trail (`Build › Tutorials › Recipes`) of every doc in a
+ * version, in sidebar order; a doc listed twice keeps its first trail.
+ */
+function getDocCategories(
+  version: LoadedVersion,
+  navbarLabels: Record<string, string>,
+): Map<string, string> {
+  const categories = new Map<string, string>();
+  const visit = (items: SidebarItem[], trail: string) => {
+    for (const item of items) {
+      if (item.type === "doc" || item.type === "ref") {
+        if (!categories.has(item.id)) categories.set(item.id, trail);
+      } else if (item.type === "category") {
+        const itemTrail = `${trail} › ${item.label}`;
+        if (item.link?.type === "doc" && !categories.has(item.link.id)) {
+          categories.set(item.link.id, itemTrail);
+        }
+        visit(item.items, itemTrail);
+      }
+    }
+  };
+  for (const [sidebarId, items] of Object.entries(version.sidebars)) {
+    visit(items, navbarLabels[sidebarId] ?? sidebarId);
+  }
+  return categories;
+}
+
+/**
+ * Lists the docs that may be outdated under the staleness policy in
+ * `customFields.staleness` (see ../utils/staleness.ts), the same check
+ * that shows the "may be outdated" banner on the page: docs of the current
+ * and latest versions not updated within their section's age limit, and
+ * docs whose `applies_to` front matter doesn't list the version they're
+ * published in.
+ *
+ * The age comes from git, for the docs of this repo only, and the banner
+ * loads it from a `<version name>.json` data module per checked version;
+ * Docusaurus' own `showLastUpdateTime` would run git for every doc, ingested
+ * ones included. The report is written after the build to
+ * `.docusaurus/stale-report.md`, one section per version with the pages
+ * grouped by sidebar category; the build log gets the counts. Invalid
+ * `applies_to` values fail the build.
+ */
+export default function staleReportPlugin(context: LoadContext): Plugin {
+  const policy = context.siteConfig.customFields?.staleness as StalenessPolicy;
+  const nextVersion = readReleaseManifest(context.siteDir).next_version;
+  let loadedVersions: LoadedVersion[] = [];
+  const lastUpdates = new Map<string, VersionLastUpdates>();
+
+  return {
+    name: "stale-report",
+
+    async allContentLoaded({ allContent, actions }) {
+      const docs = getDocsContent(allContent);
+      loadedVersions = docs?.loadedVersions ?? [];
+
+      const invalid: string[] = [];
+      for (const doc of loadedVersions.flatMap((version) => version.docs)) {
+        try {
+          parseAppliesTo(doc.frontMatter.applies_to);
+        } catch (error) {
+          invalid.push(`${doc.source}: ${(error as Error).message}`);
+        }
+      }
+      if (invalid.length > 0) {
+        throw new Error(
+          `Invalid applies_to front matter:\n${invalid.join("\n")}`,
+        );
+      }
+
+      lastUpdates.clear();
+      for (const version of loadedVersions) {
+        if (!checksAge(version.versionName, version.isLast)) continue;
+        const versionLastUpdates = getLastUpdates(context.siteDir, version);
+        lastUpdates.set(version.versionName, versionLastUpdates);
+        await actions.createData(
+          `${version.versionName}.json`,
+          JSON.stringify(versionLastUpdates),
+        );
+      }
+    },
+
+    async postBuild() {
+      const now = Date.now();
+      const navbarLabels = getSidebarNavbarLabels(context.siteConfig);
+      const reports: VersionReport[] = loadedVersions.map((version) => {
+        const docCategories = getDocCategories(version, navbarLabels);
+        const versionNumber =
+          version.versionName === "current" ? nextVersion : version.versionName;
+        const categories = new Map<string, StalePage[]>(
+          [...new Set([...docCategories.values(), NO_CATEGORY])].map(
+            (category) => [category, []],
+          ),
+        );
+        for (const doc of version.docs) {
+          const reasons = getStaleReasons(
+            {
+              id: doc.id,
+              lastUpdatedAt: lastUpdates.get(version.versionName)?.[doc.id],
+              appliesTo: doc.frontMatter.applies_to,
+            },
+            versionNumber,
+            policy,
+            checksAge(version.versionName, version.isLast) ? now : null,
+          );
+          if (reasons.length === 0) continue;
+          categories
+            .get(docCategories.get(doc.id) ?? NO_CATEGORY)!
+            .push({ doc, reasons });
+        }
+        return { version, categories };
+      });
+
+      const url = (pathname: string) =>
+        new URL(pathname, context.siteConfig.url).href;
+      const count = (report: VersionReport) =>
+        [...report.categories.values()].reduce(
+          (total, pages) => total + pages.length,
+          0,
+        );
+      const markdown = [
+        "# Stale pages",
+        `Checked ${new Date(now).toISOString().slice(0, 10)} against \`customFields.staleness\` in docusaurus.config.ts.`,
+        ...reports.map((report) =>
+          [
+            `## ${report.version.label} (${count(report)})`,
+            ...[...report.categories]
+              .filter(([, pages]) => pages.length > 0)
+              .map(([category, pages]) =>
+                [
+                  `### ${category}`,
+                  pages
+                    .map(
+                      ({ doc, reasons }) =>
+                        `- [${doc.title}](${url(doc.permalink)}) \`${doc.source.replace(/^@site\//, "")}\`: ${reasons.map(describeStaleReason).join("; ")}`,
+                    )
+                    .join("\n"),
+                ].join("\n\n"),
+              ),
+          ].join("\n\n"),
+        ),
+      ].join("\n\n");
+
+      const reportFile = path.join(context.generatedFilesDir, REPORT_FILE);
+      await fs.writeFile(reportFile, `${markdown}\n`);
+      logger.info`Stale pages: ${reports
+        .map((report) => `${count(report)} in ${report.version.label}`)
+        .join(", ")}; see path=${path.relative(context.siteDir, reportFile)}`;
+    },
+  };
+}
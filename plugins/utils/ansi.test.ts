@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { parseAnsi, stripAnsi } from "./ansi";
+
+describe("parseAnsi", () => {
+  it("splits lines into styled segments", () => {
+    expect(parseAnsi("\x1b[1;32mok\x1b[0m done")).toEqual([
+      [
+        { text: "ok", style: { bold: true, foreground: 2 } },
+        { text: " done", style: {} },
+      ],
+    ]);
+  });
+
+  it("reads escapes spelled out in Markdown", () => {
+    for (const escape of ["\\x1b", "\\u001b", "\\033"]) {
+      expect(parseAnsi(`${escape}[31merror`)).toEqual([
+        [{ text: "error", style: { foreground: 1 } }],
+      ]);
+    }
+  });
+
+  it("carries styles over to the next line", () => {
+    expect(parseAnsi("\x1b[33mone\ntwo\x1b[39m")).toEqual([
+      [{ text: "one", style: { foreground: 3 } }],
+      [{ text: "two", style: { foreground: 3 } }],
+    ]);
+  });
+
+  it("maps bright, 256-colour and RGB escapes", () => {
+    const [[bright], [palette], [cube], [gray], [rgb]] = parseAnsi(
+      [
+        "\x1b[91ma",
+        "\x1b[38;5;4ma",
+        "\x1b[38;5;208ma",
+        "\x1b[48;5;232ma",
+        "\x1b[0;38;2;1;2;3ma",
+      ].join("\n"),
+    );
+    expect(bright.style.foreground).toBe(9);
+    expect(palette.style.foreground).toBe(4);
+    expect(cube.style.foreground).toBe("rgb(255, 135, 0)");
+    expect(gray.style.background).toBe("rgb(8, 8, 8)");
+    expect(rgb.style).toEqual({ foreground: "rgb(1, 2, 3)" });
+  });
+
+  it("keeps what follows the last carriage return of a line", () => {
+    expect(parseAnsi("50%\r100%\r\ndone\n")).toEqual([
+      [{ text: "100%", style: {} }],
+      [{ text: "done", style: {} }],
+    ]);
+  });
+
+  it("drops other control sequences and hyperlinks", () => {
+    expect(
+      parseAnsi("\x1b[2K\x1b]8;;https://miden.xyz\x07link\x1b]8;;\x07"),
+    ).toEqual([[{ text: "link", style: {} }]]);
+  });
+});
+
+describe("stripAnsi", () => {
+  it("leaves the text a terminal shows", () => {
+    expect(stripAnsi("\x1b[1mbold\x1b[0m\nspin\rdone\n")).toBe("bold\ndone");
+  });
+});
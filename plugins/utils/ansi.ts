@@ -0,0 +1,121 @@
+/** Text style set by ANSI SGR (`ESC[…m`) escapes. */
+export type AnsiStyle = {
+  /**
+   * 0–15 for the 16 terminal palette colours, which the theme styles, or a
+   * CSS colour for 256-colour and RGB escapes.
+   */
+  foreground?: number | string;
+  background?: number | string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+};
+
+export type AnsiSegment = {
+  text: string;
+  style: AnsiStyle;
+};
+
+/**
+ * Control sequences, `ESC[…X`. Markdown can't hold a raw ESC, so the
+ * spelled-out `\x1b[`, `\u001b[` and `\033[` are read as one too.
+ */
+const CONTROL_SEQUENCE = /(?:\x1b|\\x1b|\\u001b|\\033)\[([\d;?]*)([A-Za-z])/g;
+
+/** Operating system commands (titles, hyperlinks), `ESC]…BEL` or `ESC]…ESC\`. */
+const OPERATING_SYSTEM_COMMAND = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/** A 256-colour palette entry: a palette index below 16, else a CSS colour. */
+function getColor256(index: number): number | string {
+  if (index < 16) return index;
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  const cube = index - 16;
+  return `rgb(${CUBE_LEVELS[Math.floor(cube / 36)]}, ${
+    CUBE_LEVELS[Math.floor(cube / 6) % 6]
+  }, ${CUBE_LEVELS[cube % 6]})`;
+}
+
+/** The style after an SGR escape's parameters (`1;31`, `38;5;208`, …). */
+function applySgr(style: AnsiStyle, parameters: string): AnsiStyle {
+  const codes = parameters.split(";").map((code) => Number(code) || 0);
+  const next = { ...style };
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) {
+      for (const key of Object.keys(next)) delete next[key as keyof AnsiStyle];
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code >= 30 && code <= 37) next.foreground = code - 30;
+    else if (code >= 90 && code <= 97) next.foreground = code - 90 + 8;
+    else if (code === 39) delete next.foreground;
+    else if (code >= 40 && code <= 47) next.background = code - 40;
+    else if (code >= 100 && code <= 107) next.background = code - 100 + 8;
+    else if (code === 49) delete next.background;
+    else if (code === 38 || code === 48) {
+      const key = code === 38 ? "foreground" : "background";
+      if (codes[i + 1] === 5) {
+        next[key] = getColor256(codes[i + 2] ?? 0);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        next[key] = `rgb(${codes.slice(i + 2, i + 5).join(", ")})`;
+        i += 4;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Lines as a terminal shows them: a carriage return (progress bars,
+ * spinners) overwrites the line, so only the text after the last one stays.
+ */
+function getTerminalLines(text: string): string[] {
+  return text
+    .replace(OPERATING_SYSTEM_COMMAND, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => line.slice(line.lastIndexOf("\r") + 1));
+}
+
+/**
+ * Terminal output as styled segments, one array per line. Colours and
+ * text attributes carry over from line to line, as in a terminal; other
+ * control sequences (cursor movement, clearing) are dropped.
+ */
+export function parseAnsi(text: string): AnsiSegment[][] {
+  let style: AnsiStyle = {};
+  return getTerminalLines(text).map((line) => {
+    const segments: AnsiSegment[] = [];
+    let cursor = 0;
+    for (const match of line.matchAll(CONTROL_SEQUENCE)) {
+      if (match.index! > cursor) {
+        segments.push({ text: line.slice(cursor, match.index), style });
+      }
+      cursor = match.index! + match[0].length;
+      if (match[2] === "m") style = applySgr(style, match[1]);
+    }
+    if (cursor < line.length) {
+      segments.push({ text: line.slice(cursor), style });
+    }
+    return segments;
+  });
+}
+
+/** Terminal output as plain text, without escapes. */
+export function stripAnsi(text: string): string {
+  return getTerminalLines(text)
+    .map((line) => line.replace(CONTROL_SEQUENCE, ""))
+    .join("\n");
+}
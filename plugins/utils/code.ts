@@ -0,0 +1,66 @@
+/**
+ * Marks a fence in `<MultiCode>` as the output of the tab before it (see
+ * src/components/codeFences.ts).
+ */
+export const OUTPUT_FLAG = /(^|\s)output(?=\s|$)/;
+
+/** Removes the indentation common to every non-blank line. */
+export function dedent(text: string): string {
+  const indent = Math.min(
+    ...text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => line.match(/^[ \t]*/)![0].length),
+  );
+  if (!Number.isFinite(indent) || indent === 0) return text;
+  return text.replace(new RegExp(`^[ \\t]{0,${indent}}`, "gm"), "");
+}
+
+/**
+ * A fenced code block, its fence longer than any run of backticks in the
+ * code. `attributes` (`title`, `label`, …) follow the info string as
+ * `key="value"`; undefined and empty ones are left out.
+ *
+ * @param info Language and flags, e.g. `bash output`.
+ */
+export function fence(
+  info: string,
+  code: string,
+  attributes: Record<string, string | undefined> = {},
+): string {
+  const longestRun = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = "`".repeat(longestRun + 1);
+  const meta = Object.entries(attributes)
+    .filter(([, value]) => value)
+    .map(([key, value]) => ` ${key}="${value}"`)
+    .join("");
+  return `${marker}${info}${meta}\n${code.replace(/\n+$/, "")}\n${marker}`;
+}
+
+/**
+ * The indentation of `<CodeSdkTabs>` code, which is written with leading
+ * dots because MDX strips leading whitespace from template literals in JSX
+ * props. Each dot is one level of two spaces:
+ *
+ *     typescript: { code: `export function foo() {
+ *     .const x = 1;
+ *     .if (x) {
+ *     ..console.log(x);
+ *     .}
+ *     }` }
+ *
+ * renders as
+ *
+ *     export function foo() {
+ *       const x = 1;
+ *       if (x) {
+ *         console.log(x);
+ *       }
+ *     }
+ */
+export function preserveIndent(code: string): string {
+  return code.replace(/^(\.+)/gm, (match) => "  ".repeat(match.length));
+}
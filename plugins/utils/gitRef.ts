@@ -0,0 +1,9 @@
+/** Branch or tag name of a full ref: `refs/tags/v0.14.6` → `v0.14.6`. */
+export function getRefName(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags)\//, "");
+}
+
+/** Whether a ref names a branch, which can be edited on GitHub, or a tag. */
+export function isBranchRef(ref: string): boolean {
+  return !ref.startsWith("refs/tags/");
+}
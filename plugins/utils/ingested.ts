@@ -0,0 +1,125 @@
+/** GitHub organization of the ingested repos. */
+export const INGESTED_OWNER = "0xMiden";
+
+export type IngestedPath = {
+  /** Docs-relative directory (ending in `/`) or file. */
+  docsPath: string;
+  /** Name of the repo in `INGESTED_OWNER`, also checked out as `vendor/<repo>`. */
+  repo: string;
+  /** Where `docsPath` lives in the repo. */
+  upstreamPath: string;
+  /** Branch ingested into the unreleased (/next/) docs. */
+  branch: string;
+};
+
+/**
+ * Docs copied in from other repositories by the "Aggregate docs" step of
+ * .github/workflows/deploy-docs.yml; keep in sync with it. More specific
+ * paths come first.
+ */
+const INGESTED: IngestedPath[] = [
+  {
+    docsPath: "core-concepts/protocol/",
+    repo: "protocol",
+    upstreamPath: "docs/src/",
+    branch: "next",
+  },
+  {
+    docsPath: "core-concepts/miden-vm/",
+    repo: "miden-vm",
+    upstreamPath: "docs/src/",
+    branch: "next",
+  },
+  {
+    docsPath: "core-concepts/node/",
+    repo: "node",
+    upstreamPath: "docs/external/src/",
+    branch: "next",
+  },
+  {
+    docsPath: "core-concepts/compiler/",
+    repo: "compiler",
+    upstreamPath: "docs/external/src/",
+    branch: "next",
+  },
+  {
+    docsPath: "builder/tools/clients/rust-client/",
+    repo: "miden-client",
+    upstreamPath: "docs/external/src/rust-client/",
+    branch: "next",
+  },
+  {
+    docsPath: "builder/tools/clients/common-errors.md",
+    repo: "miden-client",
+    upstreamPath: "docs/external/src/common-errors.md",
+    branch: "next",
+  },
+  {
+    docsPath: "builder/tools/note-transport/",
+    repo: "note-transport-service",
+    upstreamPath: "docs/external/src/",
+    branch: "main",
+  },
+  {
+    docsPath: "builder/tutorials/miden-bank/",
+    repo: "tutorials",
+    upstreamPath: "docs/src/miden-bank/",
+    branch: "main",
+  },
+  {
+    docsPath: "builder/tutorials/miden_node_setup.md",
+    repo: "tutorials",
+    upstreamPath: "docs/src/miden_node_setup.md",
+    branch: "main",
+  },
+  {
+    docsPath: "builder/tutorials/recipes/rust/",
+    repo: "tutorials",
+    upstreamPath: "docs/src/rust-client/",
+    branch: "main",
+  },
+  {
+    docsPath: "builder/tutorials/recipes/web/",
+    repo: "tutorials",
+    upstreamPath: "docs/src/web-client/",
+    branch: "main",
+  },
+];
+
+/** Ingested files that are authored in this repo all the same. */
+const LOCAL = new Set(["builder/tutorials/miden-bank/index.md"]);
+
+/**
+ * Where an ingested doc comes from, by its `@site/`-relative source as in
+ * its metadata; null for docs authored here.
+ */
+export function findIngested(
+  source: string,
+): { ingested: IngestedPath; docPath: string } | null {
+  const docPath = source.replace(
+    /^@site\/(?:docs|versioned_docs\/version-[^/]+)\//,
+    "",
+  );
+  if (LOCAL.has(docPath)) return null;
+  const ingested = INGESTED.find(({ docsPath }) =>
+    docsPath.endsWith("/")
+      ? docPath.startsWith(docsPath)
+      : docPath === docsPath,
+  );
+  return ingested ? { ingested, docPath } : null;
+}
+
+/** The repo an ingested doc was copied from, or null if it's authored here. */
+export function getIngestedRepo(source: string): string | null {
+  return findIngested(source)?.ingested.repo ?? null;
+}
+
+/**
+ * `owner/name` of the ingested repo checked out as `vendor/<dir>` by
+ * deploy-docs.yml, or null if no docs are ingested from `dir`.
+ */
+export function getVendorRepo(dir: string): string | null {
+  return INGESTED.some(({ repo }) => repo === dir)
+    ? `${INGESTED_OWNER}/${dir}`
+    : null;
+}
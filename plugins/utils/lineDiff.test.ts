@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, formatDiff } from "./lineDiff";
+
+describe("diffLines", () => {
+  it("marks identical sides unchanged", () => {
+    expect(diffLines(["a", "b"], ["a", "b"])).toEqual([
+      { kind: "unchanged", index: 0 },
+      { kind: "unchanged", index: 1 },
+    ]);
+  });
+
+  it("puts removed lines before the added lines that replace them", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+      { kind: "unchanged", index: 0 },
+      { kind: "removed", index: 1 },
+      { kind: "added", index: 1 },
+      { kind: "unchanged", index: 2 },
+      { kind: "added", index: 3 },
+    ]);
+  });
+
+  it("keeps the longest common subsequence", () => {
+    const lines = diffLines(["a", "b", "c", "d"], ["b", "d", "e"]);
+    expect(lines.filter(({ kind }) => kind === "unchanged")).toEqual([
+      { kind: "unchanged", index: 0 },
+      { kind: "unchanged", index: 1 },
+    ]);
+    expect(lines.filter(({ kind }) => kind === "removed")).toHaveLength(2);
+    expect(lines.filter(({ kind }) => kind === "added")).toHaveLength(1);
+  });
+
+  it("handles an empty side", () => {
+    expect(diffLines([], ["a"])).toEqual([{ kind: "added", index: 0 }]);
+    expect(diffLines(["a"], [])).toEqual([{ kind: "removed", index: 0 }]);
+  });
+});
+
+describe("formatDiff", () => {
+  it("prefixes lines with -, + or a space", () => {
+    expect(formatDiff(["a", "b"], ["a", "c"])).toBe("  a\n- b\n+ c");
+  });
+});
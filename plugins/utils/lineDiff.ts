@@ -0,0 +1,91 @@
+/**
+ * One line of a diff from `before` to `after`, by its index in the side it
+ * is shown from: `after` for unchanged and added lines, `before` for
+ * removed ones.
+ */
+export type DiffLine = {
+  kind: "unchanged" | "removed" | "added";
+  index: number;
+};
+
+/**
+ * A line diff, from the longest common subsequence of the two sides, with
+ * removed lines before the added lines that replace them.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Common leading and trailing lines need no table.
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const rows = before.length - prefix - suffix;
+  const columns = after.length - prefix - suffix;
+
+  // common[i * (columns + 1) + j]: length of the longest common
+  // subsequence of the middle lines of `before` from i and `after` from j.
+  const common = new Uint32Array((rows + 1) * (columns + 1));
+  const at = (i: number, j: number) => i * (columns + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      common[at(i, j)] =
+        before[prefix + i] === after[prefix + j]
+          ? common[at(i + 1, j + 1)] + 1
+          : Math.max(common[at(i + 1, j)], common[at(i, j + 1)]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  for (let index = 0; index < prefix; index++) {
+    lines.push({ kind: "unchanged", index });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && before[prefix + i] === after[prefix + j]) {
+      lines.push({ kind: "unchanged", index: prefix + j });
+      i++;
+      j++;
+    } else if (
+      i < rows &&
+      (j === columns || common[at(i + 1, j)] >= common[at(i, j + 1)])
+    ) {
+      lines.push({ kind: "removed", index: prefix + i });
+      i++;
+    } else {
+      lines.push({ kind: "added", index: prefix + j });
+      j++;
+    }
+  }
+  for (let index = after.length - suffix; index < after.length; index++) {
+    lines.push({ kind: "unchanged", index });
+  }
+  return lines;
+}
+
+const DIFF_MARKERS: Record<DiffLine["kind"], string> = {
+  unchanged: " ",
+  removed: "-",
+  added: "+",
+};
+
+/** The diff in the `-`/`+` form of a `diff` code block. */
+export function formatDiff(before: string[], after: string[]): string {
+  return diffLines(before, after)
+    .map(
+      ({ kind, index }) =>
+        `${DIFF_MARKERS[kind]} ${(kind === "removed" ? before : after)[index]}`,
+    )
+    .join("\n");
+}
@@ -0,0 +1,146 @@
+import type { Expression, Program, SpreadElement } from "estree";
+import type { Root } from "mdast";
+import type { MdxJsxFlowElement, MdxJsxTextElement } from "mdast-util-mdx-jsx";
+
+export type JsxElement = MdxJsxFlowElement | MdxJsxTextElement;
+export type Props = Record<string, unknown>;
+
+/** Explicit heading ids, `## Title {#id}`, which Docusaurus escapes before MDX. */
+const HEADING_ID = /^(#{1,6}[ \t].*?)\{(#[^{}]+)\}([ \t]*)$/gm;
+
+const TEMPLATE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "\n": "",
+};
+
+/**
+ * Parse MDX the way Docusaurus does (GFM, frontmatter, directives for
+ * admonitions, HTML comments, math), with the syntax extensions in the
+ * order @docusaurus/mdx-loader applies them. The unified ecosystem is
+ * ESM-only, hence the dynamic imports.
+ */
+export async function parseMdx(source: string): Promise<Root> {
+  const [
+    { unified },
+    { default: remarkParse },
+    { default: remarkMdx },
+    { default: remarkFrontmatter },
+    { default: remarkDirective },
+    { default: remarkGfm },
+    { default: remarkComment },
+    { default: remarkMath },
+  ] = await Promise.all([
+    import("unified"),
+    import("remark-parse"),
+    import("remark-mdx"),
+    import("remark-frontmatter"),
+    import("remark-directive"),
+    import("remark-gfm"),
+    import("@slorber/remark-comment"),
+    import("remark-math"),
+  ]);
+  return unified()
+    .use(remarkParse)
+    .use(remarkMdx)
+    .use(remarkFrontmatter)
+    .use(remarkDirective)
+    .use(remarkGfm)
+    .use(remarkComment)
+    .use(remarkMath)
+    .parse(
+      // Masked in place so node offsets still index into the real source.
+      source.replace(HEADING_ID, "$1 $2 $3"),
+    );
+}
+
+/**
+ * Statically evaluate a JSX attribute expression: literals, template
+ * literals without substitutions, objects, arrays and
+ * `require("./img.png").default`, which evaluates to the required path.
+ * Anything else (identifiers, calls, …) evaluates to undefined.
+ *
+ * MDX strips part of the leading whitespace inside expressions spanning
+ * several lines, so template literals are read back from the source, minus
+ * the indentation of the element they belong to.
+ */
+function evaluate(
+  node: Expression | SpreadElement | null,
+  source: string,
+  indent: number,
+): unknown {
+  switch (node?.type) {
+    case "Literal":
+      return node.value;
+    case "TemplateLiteral": {
+      if (node.expressions.length > 0) return undefined;
+      const [quasi] = node.quasis;
+      const { start, end } = quasi as unknown as { start: number; end: number };
+      return source
+        .slice(start, end)
+        .replace(new RegExp(`\n[ \\t]{0,${indent}}`, "g"), "\n")
+        .replace(/\\([\s\S])/g, (_, char) => TEMPLATE_ESCAPES[char] ?? char);
+    }
+    case "ArrayExpression":
+      return node.elements.map((element) => evaluate(element, source, indent));
+    case "MemberExpression": {
+      const { object, property } = node;
+      const isRequireDefault =
+        object.type === "CallExpression" &&
+        object.callee.type === "Identifier" &&
+        object.callee.name === "require" &&
+        property.type === "Identifier" &&
+        property.name === "default";
+      return isRequireDefault
+        ? evaluate(object.arguments[0] as Expression, source, indent)
+        : undefined;
+    }
+    case "ObjectExpression": {
+      const object: Props = {};
+      for (const property of node.properties) {
+        if (property.type !== "Property") continue;
+        const key =
+          property.key.type === "Identifier"
+            ? property.key.name
+            : property.key.type === "Literal"
+              ? String(property.key.value)
+              : undefined;
+        if (key !== undefined) {
+          object[key] = evaluate(property.value as Expression, source, indent);
+        }
+      }
+      return object;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The props of a JSX element, statically evaluated (see `evaluate`); `true`
+ * for attributes without a value.
+ *
+ * @param source The MDX the element was parsed from.
+ */
+export function getProps(node: JsxElement, source: string): Props {
+  const indent = node.position!.start.column - 1;
+  const props: Props = {};
+  for (const attribute of node.attributes) {
+    if (attribute.type !== "mdxJsxAttribute") continue;
+    const { value } = attribute;
+    if (value === null || value === undefined) {
+      props[attribute.name] = true;
+    } else if (typeof value === "string") {
+      props[attribute.name] = value;
+    } else {
+      const program = value.data?.estree as Program | undefined;
+      const statement = program?.body[0];
+      props[attribute.name] =
+        statement?.type === "ExpressionStatement"
+          ? evaluate(statement.expression, source, indent)
+          : undefined;
+    }
+  }
+  return props;
+}
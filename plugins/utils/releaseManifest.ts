@@ -0,0 +1,22 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+
+/** `.release/release-manifest.yml`, as written by the release workflow. */
+export type ReleaseManifest = {
+  /** Version label the ingested docs were last snapshotted as. */
+  version: string;
+  /** Exact git ref per source repository (e.g. `refs/tags/v0.14.6`). */
+  refs: Record<string, string>;
+  /** Label of the unreleased version served under /next/. */
+  next_version: string;
+};
+
+export function readReleaseManifest(siteDir: string): ReleaseManifest {
+  return parseYaml(
+    readFileSync(
+      path.join(siteDir, ".release", "release-manifest.yml"),
+      "utf8",
+    ),
+  ) as ReleaseManifest;
+}
@@ -0,0 +1,97 @@
+import type {
+  LoadedContent,
+  LoadedVersion,
+} from "@docusaurus/plugin-content-docs";
+import type { AllContent, DocusaurusConfig } from "@docusaurus/types";
+
+/**
+ * Helpers shared by the local plugins that derive data from the loaded
+ * (post-autogeneration) sidebars rather than from a hand-kept list.
+ */
+
+export const DOCS_PLUGIN_ID = "default";
+
+export type SidebarItem = LoadedVersion["sidebars"][string][number];
+
+/** The docs plugin's loaded content, or undefined if docs are disabled. */
+export function getDocsContent(allContent: AllContent): LoadedContent | undefined {
+  return allContent["docusaurus-plugin-content-docs"]?.[DOCS_PLUGIN_ID] as
+    | LoadedContent
+    | undefined;
+}
+
+/** Search tag Docusaurus assigns to a docs version (`docs-default-0.14`). */
+export function getVersionSearchTag(versionName: string): string {
+  return `docs-${DOCS_PLUGIN_ID}-${versionName}`;
+}
+
+/**
+ * Navbar labels for `docSidebar` items, keyed by sidebar id
+ * (e.g. `builderSidebar` → "Build").
+ */
+export function getSidebarNavbarLabels(
+  siteConfig: DocusaurusConfig,
+): Record<string, string> {
+  const items = (siteConfig.themeConfig as {
+    navbar?: { items?: Array<{ type?: string; sidebarId?: string; label?: string }> };
+  }).navbar?.items ?? [];
+  return Object.fromEntries(
+    items
+      .filter((item) => item.type === "docSidebar" && item.sidebarId)
+      .map((item) => [item.sidebarId!, item.label ?? item.sidebarId!]),
+  );
+}
+
+const SECTION_DIVIDER = /<span class="sidebar-section">([^<]+)<\/span>/;
+
+/**
+ * Label of a `<span class="sidebar-section">…</span>` html divider, as used
+ * in sidebars.ts to split the builder sidebar into sections.
+ */
+export function getSectionDividerLabel(item: SidebarItem): string | undefined {
+  if (item.type !== "html") return undefined;
+  return item.value.match(SECTION_DIVIDER)?.[1]?.trim();
+}
+
+/**
+ * Permalinks of every page an item (and its descendants) links to: docs,
+ * category link docs and generated category indexes.
+ */
+export function collectItemPermalinks(
+  item: SidebarItem,
+  version: LoadedVersion,
+): string[] {
+  const docPermalink = (id: string) =>
+    version.docs.find((doc) => doc.id === id)?.permalink;
+
+  switch (item.type) {
+    case "doc":
+    case "ref": {
+      const permalink = docPermalink(item.id);
+      return permalink ? [permalink] : [];
+    }
+    case "category": {
+      const own =
+        item.link?.type === "doc"
+          ? docPermalink(item.link.id)
+          : item.link?.type === "generated-index"
+            ? item.link.permalink
+            : undefined;
+      return [
+        ...(own ? [own] : []),
+        ...item.items.flatMap((child) => collectItemPermalinks(child, version)),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+export function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .trim()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  checksAge,
+  getStaleReasons,
+  parseAppliesTo,
+  type StalenessPolicy,
+} from "./staleness";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const policy: StalenessPolicy = {
+  maxAgeDays: 180,
+  sections: { "builder/": 120, "builder/tutorials/": 60 },
+};
+
+const daysAgo = (days: number) => NOW - days * DAY_MS;
+
+describe("getStaleReasons", () => {
+  it("flags docs older than their section's limit", () => {
+    expect(
+      getStaleReasons(
+        { id: "builder/tutorials/bank", lastUpdatedAt: daysAgo(61) },
+        "0.14",
+        policy,
+        NOW,
+      ),
+    ).toEqual([{ kind: "age", days: 61, maxAgeDays: 60 }]);
+  });
+
+  it("uses the longest matching section, then the default", () => {
+    const doc = { id: "builder/faq", lastUpdatedAt: daysAgo(121) };
+    expect(getStaleReasons(doc, "0.14", policy, NOW)).toEqual([
+      { kind: "age", days: 121, maxAgeDays: 120 },
+    ]);
+    expect(
+      getStaleReasons(
+        { id: "core-concepts/index", lastUpdatedAt: daysAgo(121) },
+        "0.14",
+        policy,
+        NOW,
+      ),
+    ).toEqual([]);
+  });
+
+  it("skips the age check without a date or a now", () => {
+    expect(getStaleReasons({ id: "builder/faq" }, "0.14", policy, NOW)).toEqual(
+      [],
+    );
+    expect(
+      getStaleReasons(
+        { id: "builder/faq", lastUpdatedAt: daysAgo(1000) },
+        "0.14",
+        policy,
+        null,
+      ),
+    ).toEqual([]);
+  });
+
+  it("flags docs whose applies_to leaves out the version", () => {
+    expect(
+      getStaleReasons(
+        { id: "builder/faq", appliesTo: [0.12, "0.13"] },
+        "0.14",
+        policy,
+        NOW,
+      ),
+    ).toEqual([
+      { kind: "applies-to", appliesTo: ["0.12", "0.13"], version: "0.14" },
+    ]);
+    expect(
+      getStaleReasons(
+        { id: "builder/faq", appliesTo: "v0.14.x" },
+        "0.14",
+        policy,
+        NOW,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("parseAppliesTo", () => {
+  it("reads major.minor from numbers and strings", () => {
+    expect(parseAppliesTo(0.13)).toEqual(["0.13"]);
+    expect(parseAppliesTo(["0.10", "v0.14.6"])).toEqual(["0.10", "0.14"]);
+    expect(parseAppliesTo(undefined)).toBeNull();
+  });
+
+  it("throws on anything else", () => {
+    expect(() => parseAppliesTo("latest")).toThrow(
+      'applies_to: expected a version like 0.13, got "latest"',
+    );
+  });
+});
+
+describe("checksAge", () => {
+  it("checks the current and latest versions only", () => {
+    expect(checksAge("current", false)).toBe(true);
+    expect(checksAge("0.14", true)).toBe(true);
+    expect(checksAge("0.13", false)).toBe(false);
+  });
+});
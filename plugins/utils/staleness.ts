@@ -0,0 +1,96 @@
+/** `customFields.staleness` in docusaurus.config.ts. */
+export type StalenessPolicy = {
+  /** Days since a doc was last updated after which it may be outdated. */
+  maxAgeDays: number;
+  /**
+   * `maxAgeDays` for the docs under a doc id prefix (`builder/tutorials/`);
+   * the longest matching prefix wins.
+   */
+  sections?: Record<string, number>;
+};
+
+export type StaleReason =
+  | { kind: "age"; days: number; maxAgeDays: number }
+  | { kind: "applies-to"; appliesTo: string[]; version: string };
+
+type StaleDoc = {
+  id: string;
+  /** Milliseconds since the epoch; unknown for docs git doesn't track. */
+  lastUpdatedAt?: number | null;
+  /** The doc's `applies_to` frontmatter, e.g. `0.13` or `[0.13, 0.14]`. */
+  appliesTo?: unknown;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getMaxAgeDays(id: string, policy: StalenessPolicy): number {
+  const section = Object.keys(policy.sections ?? {})
+    .filter((prefix) => id.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return section === undefined ? policy.maxAgeDays : policy.sections![section];
+}
+
+/**
+ * `major.minor` of each `applies_to` entry. YAML reads an unquoted `0.13`
+ * as a number, so `0.10` has to be quoted to mean 0.10 rather than 0.1.
+ */
+export function parseAppliesTo(value: unknown): string[] | null {
+  if (value === undefined || value === null) return null;
+  const entries = Array.isArray(value) ? value : [value];
+  return entries.map((entry) => {
+    const version =
+      typeof entry === "string" || typeof entry === "number"
+        ? String(entry).match(/^v?(\d+\.\d+)(?:\.[\dx*]+)?$/)?.[1]
+        : undefined;
+    if (!version) {
+      throw new Error(
+        `applies_to: expected a version like 0.13, got ${JSON.stringify(entry)}`,
+      );
+    }
+    return version;
+  });
+}
+
+/**
+ * Whether a version's docs are checked for age: only the current (/next/)
+ * and latest versions are still updated; older versions are snapshots,
+ * which only the `applies_to` check applies to.
+ */
+export function checksAge(versionName: string, isLast: boolean): boolean {
+  return versionName === "current" || isLast;
+}
+
+/**
+ * Why a doc may be outdated: it hasn't been updated within its section's
+ * `maxAgeDays`, or its `applies_to` frontmatter doesn't list the docs
+ * version it is published in. Empty if it's current.
+ *
+ * @param version `major.minor` of the docs version, `current` resolved to
+ * the next release.
+ * @param now Milliseconds since the epoch; the age isn't checked if null,
+ * as for versions `checksAge` excludes.
+ */
+export function getStaleReasons(
+  doc: StaleDoc,
+  version: string,
+  policy: StalenessPolicy,
+  now: number | null,
+): StaleReason[] {
+  const reasons: StaleReason[] = [];
+  if (now !== null && doc.lastUpdatedAt) {
+    const days = Math.floor((now - doc.lastUpdatedAt) / DAY_MS);
+    const maxAgeDays = getMaxAgeDays(doc.id, policy);
+    if (days > maxAgeDays) reasons.push({ kind: "age", days, maxAgeDays });
+  }
+  const appliesTo = parseAppliesTo(doc.appliesTo);
+  if (appliesTo && !appliesTo.includes(version)) {
+    reasons.push({ kind: "applies-to", appliesTo, version });
+  }
+  return reasons;
+}
+
+export function describeStaleReason(reason: StaleReason): string {
+  return reason.kind === "age"
+    ? `last updated ${reason.days} days ago (over ${reason.maxAgeDays})`
+    : `written for ${reason.appliesTo.join(", ")}, not ${reason.version}`;
+}
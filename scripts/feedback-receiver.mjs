@@ -0,0 +1,124 @@
+import { appendFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Minimal page-feedback backend for development and tests: accepts the
+// JSON POSTed by src/components/PageActions/feedback.ts and appends each
+// submission, with the time it arrived, as one line of JSONL.
+//
+//   npm run feedback:receive
+//   FEEDBACK_ENDPOINT=http://localhost:3030/feedback npm start
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.resolve(__dirname, "..");
+
+const port = Number(process.env.PORT ?? 3030);
+const outputFile = path.resolve(
+  rootDir,
+  process.env.FEEDBACK_FILE ?? "feedback.jsonl",
+);
+
+// Keep in sync with FEEDBACK_REASONS in src/components/PageActions/feedback.ts.
+const reasons = new Set([
+  "outdated",
+  "code-does-not-compile",
+  "unclear",
+  "missing-topic",
+]);
+const maxBodyBytes = 16 * 1024;
+const maxCommentLength = 2000;
+
+function validate(body) {
+  if (typeof body !== "object" || body === null) return "body must be an object";
+  if (typeof body.path !== "string" || !body.path.startsWith("/")) {
+    return "path must be a pathname";
+  }
+  if (typeof body.version !== "string" || !body.version) {
+    return "version must be a string";
+  }
+  if (body.value !== "yes" && body.value !== "no") {
+    return 'value must be "yes" or "no"';
+  }
+  if (body.reason !== null && !reasons.has(body.reason)) {
+    return `reason must be null or one of ${[...reasons].join(", ")}`;
+  }
+  if (
+    body.comment !== null &&
+    (typeof body.comment !== "string" || body.comment.length > maxCommentLength)
+  ) {
+    return `comment must be null or a string of at most ${maxCommentLength} characters`;
+  }
+  return null;
+}
+
+function send(response, status, payload) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+const server = createServer((request, response) => {
+  // The dev server runs on another port, so this is a cross-origin request.
+  response.setHeader("Access-Control-Allow-Origin", "*");
+  response.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+  if (request.method !== "POST" || request.url !== "/feedback") {
+    send(response, 404, { error: "POST feedback to /feedback" });
+    return;
+  }
+
+  let body = "";
+  request.setEncoding("utf8");
+  request.on("data", (chunk) => {
+    body += chunk;
+    if (body.length > maxBodyBytes) {
+      send(response, 413, { error: "body too large" });
+      request.destroy();
+    }
+  });
+  request.on("end", async () => {
+    let feedback;
+    try {
+      feedback = JSON.parse(body);
+    } catch {
+      send(response, 400, { error: "body must be JSON" });
+      return;
+    }
+    const error = validate(feedback);
+    if (error) {
+      send(response, 400, { error });
+      return;
+    }
+
+    const { path: pagePath, version, value, reason, comment } = feedback;
+    const record = {
+      receivedAt: new Date().toISOString(),
+      path: pagePath,
+      version,
+      value,
+      reason,
+      comment,
+    };
+    try {
+      await appendFile(outputFile, `${JSON.stringify(record)}\n`);
+    } catch (writeError) {
+      console.error(`Could not write ${outputFile}:`, writeError);
+      send(response, 500, { error: "could not store feedback" });
+      return;
+    }
+    console.log(`${record.value.padEnd(3)} ${record.version} ${record.path}`);
+    send(response, 201, { ok: true });
+  });
+});
+
+server.listen(port, () => {
+  console.log(
+    `Receiving page feedback on http://localhost:${port}/feedback → ${path.relative(rootDir, outputFile)}`,
+  );
+});
@@ -0,0 +1,255 @@
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import createJiti from "jiti";
+
+// Rewrites <CodeTabs example={{…}} /> and <CodeSdkTabs example={{…}} /> into
+// <MultiCode> with one fenced code block per tab, so the code is written as
+// plain Markdown instead of in template-literal props. The leading dots of
+// the CodeSdkTabs indentation convention become spaces, exactly as they were
+// rendered; lines that may have been chained calls (`.build()`) mangled by
+// that convention are reported for review.
+//
+//   npm run migrate:code-tabs -- docs/builder            # rewrite in place
+//   npm run migrate:code-tabs -- --check docs/builder    # only report
+//
+// Paths default to docs/. versioned_docs/ are release snapshots: migrate
+// them only when regenerating a version.
+
+const __filename = fileURLToPath(import.meta.url);
+const rootDir = path.resolve(path.dirname(__filename), "..");
+
+// The MDX parsing and code fence helpers the Markdown export uses.
+const jiti = createJiti(__filename);
+const { getProps, parseMdx } = jiti("../plugins/utils/mdx.ts");
+const { fence, preserveIndent } = jiti("../plugins/utils/code.ts");
+
+// Tabs in the order the old components showed them.
+const COMPONENTS = {
+  CodeTabs: [
+    {
+      key: "typescript",
+      label: "TypeScript",
+      filenameProp: "tsFilename",
+      filename: "index.ts",
+    },
+    {
+      key: "rust",
+      label: "Rust",
+      filenameProp: "rustFilename",
+      filename: "main.rs",
+    },
+  ],
+  CodeSdkTabs: [
+    {
+      key: "react",
+      label: "React",
+      filenameProp: "reactFilename",
+      filename: "index.tsx",
+    },
+    {
+      key: "typescript",
+      label: "TypeScript",
+      filenameProp: "tsFilename",
+      filename: "index.ts",
+    },
+  ],
+};
+
+// An indented line starting with a dotted call may instead have been a
+// chained call the convention turned into indentation; keywords can't be.
+const CHAINED_CALL = /^\.+([A-Za-z_$][\w$]*)\s*[(<]/;
+const KEYWORDS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "await",
+  "function",
+]);
+
+class MigrationError extends Error {}
+
+function languageOf(component, key, filename) {
+  if (component === "CodeTabs") return key;
+  // As CodeSdkTabs inferred it from the filename.
+  if (filename.endsWith(".tsx")) return "tsx";
+  if (filename.endsWith(".ts")) return "ts";
+  return key === "react" ? "tsx" : "ts";
+}
+
+/**
+ * The `example` prop, `{ <tab>: { code, output } }`, with the indentation
+ * of the element taken out of the code.
+ */
+function getExample(node, source) {
+  const { example } = getProps(node, source);
+  if (typeof example !== "object" || example === null) {
+    throw new MigrationError("example must be an object literal");
+  }
+  for (const [key, entry] of Object.entries(example)) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      throw new MigrationError(`example.${key} must be an object literal`);
+    }
+    // Substitutions, identifiers and calls evaluate to undefined.
+    if (Object.values(entry).some((value) => typeof value !== "string")) {
+      throw new MigrationError("code and output must be plain strings");
+    }
+  }
+  return example;
+}
+
+function getStringAttribute(node, name) {
+  const attribute = node.attributes.find(
+    (attr) => attr.type === "mdxJsxAttribute" && attr.name === name,
+  );
+  if (attribute === undefined) return undefined;
+  if (typeof attribute.value !== "string") {
+    throw new MigrationError(`${name} must be a string`);
+  }
+  return attribute.value;
+}
+
+/** The <MultiCode> replacing an element, and lines to review. */
+function migrateElement(node, source) {
+  const component = node.name;
+  const example = getExample(node, source);
+  const blocks = [];
+  const review = [];
+  for (const tab of COMPONENTS[component]) {
+    const entry = example[tab.key];
+    if (!entry?.code) continue;
+    const filename = getStringAttribute(node, tab.filenameProp) ?? tab.filename;
+    let code = entry.code;
+    if (component === "CodeSdkTabs") {
+      for (const line of code.split("\n")) {
+        const call = line.match(CHAINED_CALL)?.[1];
+        if (call && !KEYWORDS.has(call)) review.push(line.trim());
+      }
+      code = preserveIndent(code);
+    }
+    const language = languageOf(component, tab.key, filename);
+    blocks.push(
+      fence(language, code, {
+        title: filename,
+        label: tab.label,
+        value: tab.key,
+      }),
+    );
+    if (entry.output) blocks.push(fence("bash output", entry.output));
+  }
+  return {
+    replacement: ["<MultiCode>", ...blocks, "</MultiCode>"].join("\n\n"),
+    review,
+  };
+}
+
+/** Swaps CodeTabs/CodeSdkTabs for MultiCode in `@site/src/components` imports. */
+function updateImports(source) {
+  if (/<Code(?:Sdk)?Tabs\b/.test(source)) return source;
+  return source.replace(
+    /^import\s*\{([^}]*)\}\s*from\s*(['"])@site\/src\/components\2;?$/gm,
+    (statement, names, quote) => {
+      const kept = names
+        .split(",")
+        .map((name) => name.trim())
+        .filter(
+          (name) => name && name !== "CodeTabs" && name !== "CodeSdkTabs",
+        );
+      if (!kept.includes("MultiCode")) kept.unshift("MultiCode");
+      return `import { ${kept.join(", ")} } from ${quote}@site/src/components${quote};`;
+    },
+  );
+}
+
+async function migrateFile(file) {
+  const source = await readFile(file, "utf8");
+  if (!/<Code(?:Sdk)?Tabs\b/.test(source)) return null;
+
+  const elements = [];
+  const visit = (node) => {
+    if (node.type === "mdxJsxFlowElement" && node.name in COMPONENTS) {
+      elements.push(node);
+      return;
+    }
+    node.children?.forEach(visit);
+  };
+  visit(await parseMdx(source));
+
+  let output = "";
+  let cursor = 0;
+  const report = { migrated: 0, skipped: [], review: [] };
+  for (const node of elements) {
+    const { start, end } = node.position;
+    // An element indented in a list or another element keeps its indent.
+    const indent = source
+      .slice(start.offset - start.column + 1, start.offset)
+      .replace(/\S/g, " ");
+    try {
+      const { replacement, review } = migrateElement(node, source);
+      output +=
+        source.slice(cursor, start.offset) +
+        replacement.replace(/\n(?=.)/g, `\n${indent}`);
+      cursor = end.offset;
+      report.migrated += 1;
+      report.review.push(
+        ...review.map((line) => `line ${start.line}: ${line}`),
+      );
+    } catch (error) {
+      if (!(error instanceof MigrationError)) throw error;
+      report.skipped.push(`line ${start.line}: ${error.message}`);
+    }
+  }
+  output = updateImports(output + source.slice(cursor));
+  return { source, output, report };
+}
+
+async function collectFiles(target) {
+  const entries = await readdir(target, { withFileTypes: true }).catch(
+    () => null,
+  );
+  if (!entries) return /\.mdx?$/.test(target) ? [target] : [];
+  const nested = await Promise.all(
+    entries
+      .filter(
+        (entry) => !entry.name.startsWith(".") && entry.name !== "node_modules",
+      )
+      .map((entry) => collectFiles(path.join(target, entry.name))),
+  );
+  return nested.flat();
+}
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const targets = args.filter((arg) => arg !== "--check");
+const files = (
+  await Promise.all(
+    (targets.length ? targets : ["docs"]).map((target) =>
+      collectFiles(path.resolve(rootDir, target)),
+    ),
+  )
+).flat();
+
+let changed = 0;
+let needsReview = false;
+for (const file of files) {
+  const result = await migrateFile(file);
+  if (!result) continue;
+  const { source, output, report } = result;
+  const name = path.relative(rootDir, file);
+  console.log(`${name}: ${report.migrated} migrated`);
+  for (const line of report.skipped) console.log(`  skipped ${line}`);
+  for (const line of report.review)
+    console.log(`  review (was this a chained call?) ${line}`);
+  needsReview ||= report.skipped.length > 0 || report.review.length > 0;
+  if (output !== source) {
+    changed += 1;
+    if (!check) await writeFile(file, output);
+  }
+}
+console.log(
+  `${changed} file${changed === 1 ? "" : "s"} ${check ? "to migrate" : "migrated"}`,
+);
+if (check && (changed > 0 || needsReview)) process.exitCode = 1;
@@ -1,6 +1,6 @@
-import React, { useState } from "react";
-import CodeBlock from "@theme/CodeBlock";
-import styles from "./CodeSdkTabs.module.css";
+import React from "react";
+import { preserveIndent } from "@site/plugins/utils/code";
+import MultiCode, { type MultiCodeTab } from "./MultiCode";
 
 interface CodeExample {
   react?: {
@@ -19,120 +19,40 @@ interface CodeSdkTabsProps {
   tsFilename?: string;
 }
 
-// Dot-indentation convention for CodeSdkTabs
-// ─────────────────────────────────────────────
-// MDX/webpack strips leading whitespace from template literals inside JSX props.
-// To preserve indentation in code snippets, use leading dots in the markdown
-// source. Each dot represents one indent level (2 spaces).
-//
-// Example in a .md file:
-//   typescript: { code: `export function foo() {
-//   .const x = 1;
-//   .if (x) {
-//   ..console.log(x);
-//   .}
-//   }` }
-//
-// Renders as:
-//   export function foo() {
-//     const x = 1;
-//     if (x) {
-//       console.log(x);
-//     }
-//   }
-//
-// Rules:
-//   0 dots  → top-level declarations (export, import, closing braces)
-//   1 dot   → first level inside a function/block body
-//   2 dots  → second level (nested blocks, function call arguments)
-//   3+ dots → deeper nesting
-function preserveIndent(code: string): string {
-  return code.replace(/^(\.+)/gm, (match) => '  '.repeat(match.length));
-}
+// Deprecated: write new examples as fenced code blocks in <MultiCode>, which
+// keep their indentation; `npm run migrate:code-tabs` converts existing ones.
+// Code here is indented with leading dots, see `preserveIndent`.
 
+/** React and TypeScript tabs; kept for existing docs, see MultiCode. */
 export default function CodeSdkTabs({
   example,
   reactFilename = "index.tsx",
   tsFilename = "index.ts",
 }: CodeSdkTabsProps): JSX.Element {
-  const [activeTab, setActiveTab] = useState<"react" | "typescript">(
-    example.react ? "react" : "typescript"
-  );
-
-  const hasReact = !!example.react;
-  const hasTypeScript = !!example.typescript;
-
   // Infer syntax language from filename extension (.tsx → tsx, .ts → ts)
   const langFor = (filename: string, fallback: string) =>
     filename.endsWith(".tsx") ? "tsx" : filename.endsWith(".ts") ? "ts" : fallback;
 
-  // Don't show tabs if there's only one language
-  if (!hasReact || !hasTypeScript) {
-    const singleLang = hasReact ? "react" : "typescript";
-    const singleExample = example[singleLang];
-    const filename = singleLang === "react" ? reactFilename : tsFilename;
-
-    return (
-      <div className={styles.codeContainer}>
-        <div className={styles.codeSection}>
-          <CodeBlock
-            language={langFor(filename, singleLang === "react" ? "tsx" : "ts")}
-            title={filename}
-          >
-            {preserveIndent(singleExample!.code)}
-          </CodeBlock>
-        </div>
-        {singleExample!.output && (
-          <div className={styles.outputSection}>
-            <div className={styles.outputHeader}>Output</div>
-            <CodeBlock language="bash">{singleExample.output}</CodeBlock>
-          </div>
-        )}
-      </div>
-    );
+  const tabs: MultiCodeTab[] = [];
+  if (example.react) {
+    tabs.push({
+      label: "React",
+      value: "react",
+      language: langFor(reactFilename, "tsx"),
+      filename: reactFilename,
+      code: preserveIndent(example.react.code),
+      output: example.react.output,
+    });
   }
-
-  const currentExample = example[activeTab];
-  const activeFilename = activeTab === "react" ? reactFilename : tsFilename;
-
-  return (
-    <div className={styles.codeContainer}>
-      <div className={styles.tabContainer}>
-        <div className={styles.tabButtons}>
-          <button
-            className={`${styles.tabButton} ${
-              activeTab === "react" ? styles.active : ""
-            }`}
-            onClick={() => setActiveTab("react")}
-          >
-            React
-          </button>
-          <button
-            className={`${styles.tabButton} ${
-              activeTab === "typescript" ? styles.active : ""
-            }`}
-            onClick={() => setActiveTab("typescript")}
-          >
-            TypeScript
-          </button>
-        </div>
-      </div>
-
-      <div className={styles.codeSection}>
-        <CodeBlock
-          language={langFor(activeFilename, activeTab === "react" ? "tsx" : "ts")}
-          title={activeFilename}
-        >
-          {preserveIndent(currentExample!.code)}
-        </CodeBlock>
-      </div>
-
-      {currentExample!.output && (
-        <div className={styles.outputSection}>
-          <div className={styles.outputHeader}>Output</div>
-          <CodeBlock language="bash">{currentExample.output}</CodeBlock>
-        </div>
-      )}
-    </div>
-  );
+  if (example.typescript) {
+    tabs.push({
+      label: "TypeScript",
+      value: "typescript",
+      language: langFor(tsFilename, "ts"),
+      filename: tsFilename,
+      code: preserveIndent(example.typescript.code),
+      output: example.typescript.output,
+    });
+  }
+  return <MultiCode tabs={tabs} />;
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyScore } from "./fuzzy";
+
+describe("fuzzyScore", () => {
+  it("matches characters in order, case-insensitively", () => {
+    expect(fuzzyScore("acnt", "Account")).not.toBeNull();
+    expect(fuzzyScore("tnca", "Account")).toBeNull();
+  });
+
+  it("matches anything for an empty query", () => {
+    expect(fuzzyScore("  ", "Account")).toBe(0);
+  });
+
+  it("ignores spaces in the query", () => {
+    expect(fuzzyScore("get started", "Get started")).not.toBeNull();
+    expect(fuzzyScore("getstarted", "Get started")).not.toBeNull();
+  });
+
+  it("ranks prefixes over substrings over scattered matches", () => {
+    const prefix = fuzzyScore("note", "Notes")!;
+    const substring = fuzzyScore("note", "Private notes")!;
+    const scattered = fuzzyScore("note", "Nested outputs table entry")!;
+    expect(prefix).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(scattered);
+  });
+
+  it("favours word starts and camelCase humps", () => {
+    expect(fuzzyScore("ac", "Account Code")!).toBeGreaterThan(
+      fuzzyScore("ac", "Bracket")!,
+    );
+    expect(fuzzyScore("ac", "AccountCode")!).toBeGreaterThan(
+      fuzzyScore("ac", "Bracket")!,
+    );
+  });
+
+  it("prefers the shorter label among equal matches", () => {
+    expect(fuzzyScore("faq", "FAQ")!).toBeGreaterThan(
+      fuzzyScore("faq", "FAQ and troubleshooting")!,
+    );
+  });
+});
@@ -0,0 +1,38 @@
+const WORD_BOUNDARY = /[\s\-_/.:()]/;
+
+/**
+ * Fuzzy-match `query` against `text`: every query character must appear in
+ * order. Returns null for no match, otherwise a score that favours
+ * consecutive runs, word starts and plain substring/prefix matches.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 5;
+    if (
+      index === 0 ||
+      WORD_BOUNDARY.test(text[index - 1]) ||
+      (text[index] !== haystack[index] &&
+        text[index - 1] === haystack[index - 1])
+    ) {
+      score += 8;
+    }
+    previous = index;
+    from = index + 1;
+  }
+
+  const phrase = query.trim().toLowerCase();
+  if (haystack.startsWith(phrase)) score += 30;
+  else if (haystack.includes(phrase)) score += 20;
+  // Among equal matches, prefer the shorter (more specific) label.
+  return score - haystack.length * 0.05;
+}
@@ -0,0 +1,339 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+import { useHistory, useLocation } from "@docusaurus/router";
+import { createStorageSlot, useColorMode } from "@docusaurus/theme-common";
+import {
+  useActiveDocContext,
+  useDocsPreferredVersion,
+  useLatestVersion,
+  useVersions,
+} from "@docusaurus/plugin-content-docs/client";
+import type { PaletteEntry } from "@site/plugins/command-palette";
+import { copyPageAsMarkdown } from "../CopyPageButton/copyPage";
+import { fuzzyScore } from "./fuzzy";
+import styles from "./styles.module.css";
+
+const DOCS_PLUGIN_ID = "default";
+const MAX_RESULTS = 50;
+const MAX_RECENT = 10;
+const LIST_ID = "command-palette-list";
+
+const recentSlot = createStorageSlot("miden.commandPalette.recentPages");
+
+type Command = {
+  id: string;
+  label: string;
+  /** Shown after the label: category trail, version state, … */
+  detail?: string;
+  kind: "Page" | "Version" | "Action";
+  /** Position in the recently-visited list, 0 = most recent. */
+  recent?: number;
+  run: () => void | Promise<unknown>;
+};
+
+function readRecent(): string[] {
+  try {
+    const recent = JSON.parse(recentSlot.get() ?? "[]");
+    return Array.isArray(recent) ? recent : [];
+  } catch {
+    return [];
+  }
+}
+
+function rank(commands: Command[], query: string): Command[] {
+  if (!query.trim()) {
+    // No query: recently visited pages first, then actions and versions.
+    const recent = commands
+      .filter((command) => command.recent !== undefined)
+      .sort((a, b) => a.recent! - b.recent!);
+    const rest = commands.filter(
+      (command) => command.kind !== "Page" && command.recent === undefined,
+    );
+    return [...recent, ...rest];
+  }
+  return commands
+    .map((command) => {
+      const labelScore = fuzzyScore(query, command.label);
+      const detailScore = command.detail
+        ? fuzzyScore(query, `${command.detail} ${command.label}`)
+        : null;
+      if (labelScore === null && detailScore === null) return null;
+      let score = Math.max(
+        labelScore ?? -Infinity,
+        (detailScore ?? -Infinity) - 10,
+      );
+      if (command.recent !== undefined) score += 15 - command.recent;
+      return { command, score };
+    })
+    .filter((match) => match !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(({ command }) => command);
+}
+
+/**
+ * Keyboard command palette, opened with Cmd/Ctrl+K: jump to any entry of
+ * the navbar sidebars, switch docs version, toggle the color mode or copy
+ * the current page as Markdown. Mounted once per page by the Layout wrapper.
+ */
+export default function CommandPalette(): ReactNode {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const [recent, setRecent] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const history = useHistory();
+  const location = useLocation();
+  const { colorMode, setColorMode } = useColorMode();
+  const [entries, setEntries] = useState<Record<string, PaletteEntry[]>>({});
+  const [entriesFailed, setEntriesFailed] = useState(false);
+  const versions = useVersions(DOCS_PLUGIN_ID);
+  const latestVersion = useLatestVersion(DOCS_PLUGIN_ID);
+  const { activeVersion, activeDoc, alternateDocVersions } =
+    useActiveDocContext(DOCS_PLUGIN_ID);
+  const { preferredVersion, savePreferredVersionName } =
+    useDocsPreferredVersion(DOCS_PLUGIN_ID);
+  const version = activeVersion ?? preferredVersion ?? latestVersion;
+
+  // Remember visited doc pages for ranking.
+  useEffect(() => {
+    if (!activeDoc) return;
+    const visited = [
+      location.pathname,
+      ...readRecent().filter((path) => path !== location.pathname),
+    ].slice(0, MAX_RECENT);
+    recentSlot.set(JSON.stringify(visited));
+  }, [location.pathname, activeDoc]);
+
+  useEffect(() => {
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setActive(0);
+    setRecent(readRecent());
+    inputRef.current?.focus();
+  }, [open]);
+
+  // Sidebar entries of the version, from plugins/command-palette; fetched
+  // the first time the palette opens in that version, and again on the next
+  // open if that failed (a chunk gone after a deploy, the network).
+  useEffect(() => {
+    if (!open || entries[version.name]) return;
+    let cancelled = false;
+    setEntriesFailed(false);
+    import(`@generated/command-palette/default/${version.name}.json`)
+      .then(({ default: versionEntries }: { default: PaletteEntry[] }) => {
+        if (cancelled) return;
+        setEntries((loaded) => ({ ...loaded, [version.name]: versionEntries }));
+      })
+      .catch(() => {
+        if (!cancelled) setEntriesFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, version.name]);
+
+  const close = useCallback(() => setOpen(false), []);
+
+  const commands = useMemo((): Command[] => {
+    const pages: Command[] = (entries[version.name] ?? []).map((entry) => ({
+      id: `page:${entry.path}`,
+      label: entry.label,
+      detail: entry.trail.join(" › "),
+      kind: "Page",
+      recent: recent.includes(entry.path)
+        ? recent.indexOf(entry.path)
+        : undefined,
+      run: () => history.push(entry.path),
+    }));
+
+    const versionCommands: Command[] = versions.map((target) => ({
+      id: `version:${target.name}`,
+      label: `Switch to version ${target.label}`,
+      detail: target.name === version.name ? "Current" : undefined,
+      kind: "Version",
+      run: () => {
+        savePreferredVersionName(target.name);
+        // Same page in the target version if it exists, else its main doc.
+        const doc =
+          alternateDocVersions[target.name] ??
+          target.docs.find((doc) => doc.id === target.mainDocId);
+        history.push(doc?.path ?? target.path);
+      },
+    }));
+
+    const actions: Command[] = [
+      {
+        id: "action:color-mode",
+        label:
+          colorMode === "dark" ? "Switch to light mode" : "Switch to dark mode",
+        kind: "Action",
+        run: () => setColorMode(colorMode === "dark" ? "light" : "dark"),
+      },
+    ];
+    if (activeDoc) {
+      actions.push({
+        id: "action:copy-page",
+        label: "Copy page as Markdown",
+        kind: "Action",
+        run: copyPageAsMarkdown,
+      });
+    }
+
+    return [...actions, ...versionCommands, ...pages];
+  }, [
+    entries,
+    version,
+    versions,
+    alternateDocVersions,
+    activeDoc,
+    colorMode,
+    recent,
+  ]);
+
+  const results = useMemo(() => rank(commands, query), [commands, query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command) return;
+    close();
+    void command.run();
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const count = results.length;
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        if (count) setActive((index) => (index + 1) % count);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        if (count) setActive((index) => (index - 1 + count) % count);
+        break;
+      case "PageDown":
+        event.preventDefault();
+        if (count) setActive((index) => Math.min(index + 5, count - 1));
+        break;
+      case "PageUp":
+        event.preventDefault();
+        if (count) setActive((index) => Math.max(index - 5, 0));
+        break;
+      case "Enter":
+        event.preventDefault();
+        runCommand(results[active]);
+        break;
+      case "Escape":
+        event.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className={styles.backdrop} onMouseDown={close}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          className={styles.input}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls={LIST_ID}
+          aria-activedescendant={
+            results[active] ? `${LIST_ID}-${active}` : undefined
+          }
+          aria-autocomplete="list"
+          placeholder="Jump to a page, switch version, run an action…"
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActive(0);
+          }}
+          onKeyDown={onKeyDown}
+          onBlur={(event) => {
+            // Clicking a result blurs the input; keep focus in the palette.
+            if (!event.relatedTarget) inputRef.current?.focus();
+          }}
+        />
+        <ul ref={listRef} id={LIST_ID} role="listbox" className={styles.list}>
+          {entriesFailed && (
+            <li className={styles.empty}>
+              Pages could not be loaded; reopen the palette to try again
+            </li>
+          )}
+          {results.length === 0 && (
+            <li className={styles.empty}>No matching commands</li>
+          )}
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`${LIST_ID}-${index}`}
+              data-index={index}
+              role="option"
+              aria-selected={index === active}
+              className={styles.item}
+              onMouseMove={() => setActive(index)}
+              onClick={() => runCommand(command)}
+            >
+              <span className={styles.label}>{command.label}</span>
+              {command.detail && (
+                <span className={styles.detail}>{command.detail}</span>
+              )}
+              <span className={styles.kind}>
+                {command.recent !== undefined && !query.trim()
+                  ? "Recent"
+                  : command.kind}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.footer} aria-hidden="true">
+          <span>
+            <kbd>↑</kbd>
+            <kbd>↓</kbd> navigate
+          </span>
+          <span>
+            <kbd>↵</kbd> select
+          </span>
+          <span>
+            <kbd>esc</kbd> close
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,470 @@
+import TurndownService from "turndown";
+import siteConfig from "@generated/docusaurus.config";
+import { stripAnsi } from "@site/plugins/utils/ansi";
+import { getAlertType } from "@site/plugins/markdown-source/alertType";
+import { toAbsoluteUrl } from "@site/plugins/markdown-source/absoluteUrl";
+import { getMarkdownSourcePath } from "@site/plugins/markdown-source/sourcePath";
+
+const turndownService = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+});
+
+// Preserve code block language hints from Prism-highlighted blocks
+turndownService.addRule("fencedCodeBlock", {
+  filter(node) {
+    return node.nodeName === "PRE" && node.querySelector("code") !== null;
+  },
+  replacement(_content, node) {
+    const codeEl = (node as HTMLElement).querySelector("code");
+    if (!codeEl) return _content;
+
+    // Extract language from class like "language-rust" or "prism-code language-rust"
+    const langMatch = codeEl.className.match(/language-(\w+)/);
+    const lang = langMatch ? langMatch[1] : "";
+
+    // Get the raw text content (strips Prism span wrappers)
+    const code = codeEl.textContent || "";
+
+    return `\n\n\`\`\`${lang}\n${code}\n\`\`\`\n\n`;
+  },
+});
+
+/**
+ * One tab of a MultiCode block. It only renders the active tab, so it
+ * carries all of them as JSON in a `data-copy-tabs` attribute.
+ */
+export type CopyTab = {
+  label: string;
+  language: string;
+  filename?: string;
+  code: string;
+  output?: string;
+};
+
+function formatTab({ label, language, filename, code, output }: CopyTab) {
+  const heading = filename ? `**${label}** — \`${filename}\`` : `**${label}**`;
+  const blocks = [
+    heading,
+    `\`\`\`${language}\n${code.replace(/\n$/, "")}\n\`\`\``,
+  ];
+  if (output) {
+    blocks.push("Output:", `\`\`\`bash\n${stripAnsi(output)}\n\`\`\``);
+  }
+  return blocks.join("\n\n");
+}
+
+// Every tab of a code tabs block, not just the active one
+turndownService.addRule("codeTabs", {
+  filter(node) {
+    return node.hasAttribute("data-copy-tabs");
+  },
+  replacement(content, node) {
+    try {
+      const tabs: CopyTab[] = JSON.parse(
+        (node as HTMLElement).getAttribute("data-copy-tabs")!,
+      );
+      return `\n\n${tabs.map(formatTab).join("\n\n")}\n\n`;
+    } catch {
+      return content;
+    }
+  },
+});
+
+// TerminalOutput: all of it, even when collapsed, without colour escapes
+turndownService.addRule("terminalOutput", {
+  filter(node) {
+    return node.hasAttribute("data-copy-output");
+  },
+  replacement(content, node) {
+    const element = node as HTMLElement;
+    const language = element.getAttribute("data-copy-language") ?? "text";
+    return `\n\n\`\`\`${language}\n${element.getAttribute("data-copy-output")}\n\`\`\`\n\n`;
+  },
+});
+
+// Docusaurus <Tabs>: every panel (inactive ones are only hidden), each
+// under its tab label
+turndownService.addRule("tabs", {
+  filter(node) {
+    return node.classList.contains("tabs-container");
+  },
+  replacement(content, node) {
+    const children = Array.from(node.children);
+    const labels = Array.from(
+      children.find((child) => child.getAttribute("role") === "tablist")
+        ?.children ?? [],
+    );
+    const panels = children
+      .flatMap((child) => Array.from(child.children))
+      .filter((child) => child.getAttribute("role") === "tabpanel");
+    if (panels.length === 0) return content;
+    const sections = panels.map((panel, index) => {
+      const label = labels[index]?.textContent?.trim() || `Tab ${index + 1}`;
+      return `**${label}**\n\n${turndownService.turndown(panel.innerHTML)}`;
+    });
+    return `\n\n${sections.join("\n\n")}\n\n`;
+  },
+});
+
+function githubAlert(
+  type: string,
+  title: string | null | undefined,
+  content: string,
+): string {
+  const alert = getAlertType(type);
+  const lines = [`[!${alert}]`];
+  // Skip default titles ("warning", "Tip", …): the alert type says as much
+  const label = title?.trim();
+  if (label && ![type, alert.toLowerCase()].includes(label.toLowerCase())) {
+    lines.push(`**${label}**`);
+  }
+  lines.push(...content.trim().split("\n"));
+  const quoted = lines.map((line) => (line ? `> ${line}` : ">"));
+  return `\n\n${quoted.join("\n")}\n\n`;
+}
+
+// :::note … ::: admonitions
+turndownService.addRule("admonition", {
+  filter(node) {
+    return node.classList.contains("theme-admonition");
+  },
+  replacement(content, node) {
+    const type =
+      Array.from(node.classList)
+        .find((name) => name.startsWith("theme-admonition-"))
+        ?.slice("theme-admonition-".length) ?? "note";
+    const title = node.querySelector("[data-admonition-title]")?.textContent;
+    return githubAlert(type, title, content);
+  },
+});
+
+// <Callout variant="…" title="…">
+turndownService.addRule("callout", {
+  filter(node) {
+    return node.hasAttribute("data-callout");
+  },
+  replacement(content, node) {
+    const title = node.querySelector("[data-callout-title]")?.textContent;
+    return githubAlert(node.getAttribute("data-callout")!, title, content);
+  },
+});
+
+// Titles are read by the two rules above
+turndownService.addRule("alertTitle", {
+  filter(node) {
+    return (
+      node.hasAttribute("data-admonition-title") ||
+      node.hasAttribute("data-callout-title")
+    );
+  },
+  replacement() {
+    return "";
+  },
+});
+
+// Mermaid diagrams: their source rather than the rendered SVG
+turndownService.addRule("mermaid", {
+  filter(node) {
+    return node.hasAttribute("data-mermaid-source");
+  },
+  replacement(_content, node) {
+    const source = node.getAttribute("data-mermaid-source")!.trim();
+    return `\n\n\`\`\`mermaid\n${source}\n\`\`\`\n\n`;
+  },
+});
+
+/** The TeX source KaTeX keeps in its MathML annotation. */
+function texSource(node: HTMLElement): string | null {
+  return (
+    node
+      .querySelector('annotation[encoding="application/x-tex"]')
+      ?.textContent?.trim() ?? null
+  );
+}
+
+// KaTeX display math
+turndownService.addRule("mathDisplay", {
+  filter(node) {
+    return node.classList.contains("katex-display");
+  },
+  replacement(content, node) {
+    const tex = texSource(node);
+    return tex === null ? content : `\n\n$$\n${tex}\n$$\n\n`;
+  },
+});
+
+// KaTeX inline math
+turndownService.addRule("mathInline", {
+  filter(node) {
+    return node.classList.contains("katex");
+  },
+  replacement(content, node) {
+    const tex = texSource(node);
+    return tex === null ? content : `$${tex}$`;
+  },
+});
+
+/** A table cell's content as single-line GFM, keeping inline formatting. */
+function tableCell(cell: HTMLTableCellElement): string {
+  return turndownService
+    .turndown(cell.innerHTML)
+    .trim()
+    .replace(/\n{2,}/g, "<br>")
+    .replace(/\n/g, " ")
+    .replace(/\|/g, "\\|");
+}
+
+function alignmentRow(cells: HTMLTableCellElement[]): string {
+  return cells
+    .map((cell) => {
+      switch (cell.getAttribute("align") || cell.style.textAlign) {
+        case "left":
+          return ":---";
+        case "center":
+          return ":---:";
+        case "right":
+          return "---:";
+        default:
+          return "---";
+      }
+    })
+    .join(" | ");
+}
+
+// GFM tables: inline code, links and emphasis kept, pipes escaped, column
+// alignment from the header, and an empty header row for tables without one
+// (GFM requires it)
+turndownService.addRule("table", {
+  filter: "table",
+  replacement(content, node) {
+    const table = node as HTMLTableElement;
+    const rows = Array.from(table.rows);
+    if (rows.length === 0) return content;
+
+    // Expand colspans so every row has one entry per column
+    const grid = rows.map((row) =>
+      Array.from(row.cells).flatMap((cell) =>
+        Array.from<HTMLTableCellElement>({ length: cell.colSpan || 1 }).fill(
+          cell,
+        ),
+      ),
+    );
+    const columns = Math.max(...grid.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${[...cells, ...Array(columns - cells.length).fill("")].join(" | ")} |`;
+    const markdownRow = (cells: HTMLTableCellElement[]) =>
+      line(
+        cells.map((cell, index) =>
+          // Only the first column of a colspan holds the content
+          cells[index - 1] === cell ? "" : tableCell(cell),
+        ),
+      );
+
+    const hasHeader =
+      rows[0].parentElement?.tagName === "THEAD" ||
+      Array.from(rows[0].cells).every((cell) => cell.tagName === "TH");
+    const header = hasHeader ? grid[0] : [];
+    const body = hasHeader ? grid.slice(1) : grid;
+    // Alignment comes from the header, or else the first row
+    const alignments = alignmentRow(grid[0]).split(" | ");
+
+    return `\n\n${[
+      hasHeader ? markdownRow(header) : line([]),
+      line([...alignments, ...Array(columns - alignments.length).fill("---")]),
+      ...body.map(markdownRow),
+    ].join("\n")}\n\n`;
+  },
+});
+
+// Skip copy buttons inside code blocks, nav elements, TOC, etc.
+turndownService.addRule("skipNonContent", {
+  filter(node) {
+    const el = node as HTMLElement;
+    if (!el.classList) return false;
+    // Skip copy buttons, hash links, theme toggles, nav elements
+    return (
+      el.classList.contains("clean-btn") ||
+      el.classList.contains("hash-link") ||
+      el.tagName === "NAV" ||
+      el.getAttribute("role") === "navigation"
+    );
+  },
+  replacement() {
+    return "";
+  },
+});
+
+/**
+ * A doc page's content as Markdown, with the page title as an h1. Reads the
+ * current page by default, or a fetched one served at `pathname`. Returns
+ * null when there is no doc article on the page.
+ */
+export function getPageMarkdown(
+  root: Document = document,
+  pathname = window.location.pathname,
+): string | null {
+  // Find the main article content
+  const article = root.querySelector("article .markdown");
+  if (!article) return null;
+
+  return `# ${getPageTitle(root)}\n\n${toMarkdown(Array.from(article.childNodes), pathname)}`;
+}
+
+/**
+ * A heading's section as Markdown: the heading and everything after it up to
+ * the next heading of the same or a higher level.
+ */
+export function getSectionMarkdown(heading: HTMLElement): string {
+  const level = Number(heading.tagName.slice(1));
+  const nodes: Node[] = [heading];
+  for (
+    let sibling = heading.nextSibling;
+    sibling !== null;
+    sibling = sibling.nextSibling
+  ) {
+    const match = /^H([1-6])$/.exec(sibling.nodeName);
+    if (match && Number(match[1]) <= level) break;
+    nodes.push(sibling);
+  }
+  return toMarkdown(nodes, window.location.pathname);
+}
+
+/** Content of the page at `pathname` as Markdown, with absolute URLs. */
+function toMarkdown(nodes: Node[], pathname: string): string {
+  // Clone to avoid mutating the DOM
+  const container = (nodes[0]?.ownerDocument ?? document).createElement("div");
+  nodes.forEach((node) => container.appendChild(node.cloneNode(true)));
+
+  // Remove elements that shouldn't be in the copied content
+  container
+    .querySelectorAll(
+      ".theme-admonition-icon, .copy-page-button-container, .heading-menu, button.clean-btn, .hash-link, nav, [role='navigation']",
+    )
+    .forEach((el) => el.remove());
+
+  // Attributes rather than the href/src properties, which resolve against
+  // the current page even in a fetched one.
+  container.querySelectorAll("a[href]").forEach((link) => {
+    link.setAttribute(
+      "href",
+      toAbsoluteUrl(link.getAttribute("href")!, pathname, siteConfig.url),
+    );
+  });
+  container.querySelectorAll("img[src]").forEach((image) => {
+    image.setAttribute(
+      "src",
+      toAbsoluteUrl(image.getAttribute("src")!, pathname, siteConfig.url),
+    );
+  });
+
+  return turndownService.turndown(container.innerHTML);
+}
+
+/** The page title from the content heading or document. */
+export function getPageTitle(root: Document = document): string {
+  return (
+    root.querySelector("article header h1")?.textContent ||
+    root.querySelector("h1")?.textContent ||
+    root.title
+  );
+}
+
+/** The current doc page's rendered content as plain text. */
+export function getPageText(): string | null {
+  const article = document.querySelector<HTMLElement>("article .markdown");
+  return article ? article.innerText.trim() : null;
+}
+
+export async function copyToClipboard(text: string): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // Fallback for older browsers
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    textarea.style.position = "fixed";
+    textarea.style.opacity = "0";
+    document.body.appendChild(textarea);
+    textarea.select();
+    document.execCommand("copy");
+    document.body.removeChild(textarea);
+  }
+}
+
+export function downloadMarkdown(markdown: string, filename: string): void {
+  const url = URL.createObjectURL(
+    new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A doc's authored Markdown, as emitted on build by the markdown-source
+ * plugin. Resolves null when it can't be fetched, e.g. on the dev server.
+ */
+export async function fetchPageSource(
+  pathname = window.location.pathname,
+): Promise<string | null> {
+  try {
+    const response = await fetch(getMarkdownSourcePath(pathname));
+    // Hosts with an SPA fallback answer unknown paths with the HTML shell.
+    if (
+      !response.ok ||
+      response.headers.get("content-type")?.includes("text/html")
+    ) {
+      return null;
+    }
+    return await response.text();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The current page as Markdown: its authored source when available,
+ * otherwise the rendered content converted back.
+ */
+export async function getCurrentPageMarkdown(): Promise<string | null> {
+  return (await fetchPageSource()) ?? getPageMarkdown();
+}
+
+/**
+ * Another doc page as Markdown: its authored source, or else its prerendered
+ * HTML converted. Resolves null on the dev server, which doesn't prerender.
+ */
+export async function fetchPageMarkdown(
+  pathname: string,
+): Promise<string | null> {
+  const source = await fetchPageSource(pathname);
+  if (source !== null) return source;
+  try {
+    const response = await fetch(pathname);
+    if (!response.ok) return null;
+    const page = new DOMParser().parseFromString(
+      await response.text(),
+      "text/html",
+    );
+    return getPageMarkdown(page, pathname);
+  } catch {
+    return null;
+  }
+}
+
+/** Drop a leading front matter block. */
+export function stripFrontMatter(markdown: string): string {
+  return markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n+/, "");
+}
+
+/** Copy the current page as Markdown. Resolves false if there is no page. */
+export async function copyPageAsMarkdown(): Promise<boolean> {
+  const markdown = await getCurrentPageMarkdown();
+  if (markdown === null) return false;
+  await copyToClipboard(markdown);
+  return true;
+}
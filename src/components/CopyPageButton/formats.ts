@@ -0,0 +1,96 @@
+import type {
+  PropSidebarItem,
+  PropSidebarItemCategory,
+} from "@docusaurus/plugin-content-docs";
+import { fetchPageMarkdown, stripFrontMatter } from "./copyPage";
+
+export type PageContext = {
+  title: string;
+  /** Absolute URL on the production site. */
+  url: string;
+  /** Docs version label, e.g. `0.14` or `0.15 (unstable)`. */
+  version: string;
+  /** Sidebar categories leading to the page, outermost first. */
+  breadcrumbs: string[];
+};
+
+type CategoryPage = { label: string; href: string };
+
+/**
+ * A page wrapped with everything an assistant or issue tracker needs to
+ * place it: where it lives, which docs version it describes and where it
+ * sits in the sidebar.
+ */
+export function formatPrompt(markdown: string, page: PageContext): string {
+  return [
+    `The following is the "${page.title}" page of the Miden documentation.`,
+    "",
+    `URL: ${page.url}`,
+    `Docs version: ${page.version}`,
+    `Section: ${[...page.breadcrumbs, page.title].join(" › ")}`,
+    "",
+    "Answer with this docs version in mind; APIs differ between versions.",
+    "",
+    "<page>",
+    stripFrontMatter(markdown).trim(),
+    "</page>",
+    "",
+  ].join("\n");
+}
+
+/** Every doc page of a sidebar category, in sidebar order. */
+function collectCategoryPages(items: PropSidebarItem[]): CategoryPage[] {
+  return items.flatMap((item): CategoryPage[] => {
+    switch (item.type) {
+      case "link":
+        return item.docId ? [{ label: item.label, href: item.href }] : [];
+      case "category":
+        return [
+          ...(item.href ? [{ label: item.label, href: item.href }] : []),
+          ...collectCategoryPages(item.items),
+        ];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * All pages of a sidebar category as one Markdown document, each under its
+ * own h1. Pages that can't be fetched are listed at the end by URL.
+ * Resolves null if none could be.
+ */
+export async function fetchCategoryMarkdown(
+  category: PropSidebarItemCategory,
+  version: string,
+  siteUrl: string,
+): Promise<string | null> {
+  const pages = collectCategoryPages([category]).filter(
+    (page, index, all) =>
+      all.findIndex(({ href }) => href === page.href) === index,
+  );
+  const contents = await Promise.all(
+    pages.map((page) => fetchPageMarkdown(page.href)),
+  );
+
+  const sections: string[] = [];
+  const missing: string[] = [];
+  pages.forEach((page, index) => {
+    const url = new URL(page.href, siteUrl).href;
+    const content = contents[index];
+    if (content === null) {
+      missing.push(`- [${page.label}](${url})`);
+      return;
+    }
+    const body = stripFrontMatter(content).trim();
+    const heading = /^# /.test(body) ? "" : `# ${page.label}\n\n`;
+    sections.push(`${heading}${body}\n\nSource: ${url}`);
+  });
+  if (sections.length === 0) return null;
+
+  return [
+    `<!-- Miden documentation, version ${version}: "${category.label}" (${sections.length} pages) -->`,
+    ...sections,
+    ...(missing.length ? [`Pages not included:\n\n${missing.join("\n")}`] : []),
+  ].join("\n\n---\n\n");
+}
@@ -1,138 +1,157 @@
-import React, { useState, useCallback, type ReactNode } from "react";
-import TurndownService from "turndown";
+import React, { useCallback, useState, type ReactNode } from "react";
+import { useLocation } from "@docusaurus/router";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import {
+  useDocsVersion,
+  useSidebarBreadcrumbs,
+} from "@docusaurus/plugin-content-docs/client";
+import type { PropSidebarItemCategory } from "@docusaurus/plugin-content-docs";
+import {
+  copyPageAsMarkdown,
+  copyToClipboard,
+  downloadMarkdown,
+  getCurrentPageMarkdown,
+  getPageText,
+  getPageTitle,
+} from "./copyPage";
+import {
+  fetchCategoryMarkdown,
+  formatPrompt,
+  type PageContext,
+} from "./formats";
+import { useMenu } from "./useMenu";
 import styles from "./styles.module.css";
 
-const turndownService = new TurndownService({
-  headingStyle: "atx",
-  codeBlockStyle: "fenced",
-  bulletListMarker: "-",
-});
-
-// Preserve code block language hints from Prism-highlighted blocks
-turndownService.addRule("fencedCodeBlock", {
-  filter(node) {
-    return (
-      node.nodeName === "PRE" &&
-      node.querySelector("code") !== null
-    );
-  },
-  replacement(_content, node) {
-    const codeEl = (node as HTMLElement).querySelector("code");
-    if (!codeEl) return _content;
-
-    // Extract language from class like "language-rust" or "prism-code language-rust"
-    const langMatch = codeEl.className.match(/language-(\w+)/);
-    const lang = langMatch ? langMatch[1] : "";
-
-    // Get the raw text content (strips Prism span wrappers)
-    const code = codeEl.textContent || "";
-
-    return `\n\n\`\`\`${lang}\n${code}\n\`\`\`\n\n`;
-  },
-});
-
-// Convert tables properly
-turndownService.addRule("table", {
-  filter: "table",
-  replacement(_content, node) {
-    const table = node as HTMLTableElement;
-    const rows = Array.from(table.querySelectorAll("tr"));
-    if (rows.length === 0) return _content;
-
-    const result: string[] = [];
-
-    for (let i = 0; i < rows.length; i++) {
-      const cells = Array.from(rows[i].querySelectorAll("th, td"));
-      const row = cells.map((c) => (c.textContent || "").trim()).join(" | ");
-      result.push(`| ${row} |`);
-
-      // Add separator after header row
-      if (i === 0) {
-        const separator = cells.map(() => "---").join(" | ");
-        result.push(`| ${separator} |`);
-      }
-    }
-
-    return `\n\n${result.join("\n")}\n\n`;
-  },
-});
-
-// Skip copy buttons inside code blocks, nav elements, TOC, etc.
-turndownService.addRule("skipNonContent", {
-  filter(node) {
-    const el = node as HTMLElement;
-    if (!el.classList) return false;
-    // Skip copy buttons, hash links, theme toggles, nav elements
-    return (
-      el.classList.contains("clean-btn") ||
-      el.classList.contains("hash-link") ||
-      el.tagName === "NAV" ||
-      el.getAttribute("role") === "navigation"
-    );
-  },
-  replacement() {
-    return "";
-  },
-});
-
+type MenuAction = {
+  id: string;
+  label: string;
+  description: string;
+  /** Resolves the feedback to show on the main button, or null on failure. */
+  run: () => Promise<string | null>;
+};
+
+const MENU_ID = "copy-page-menu";
+
+/**
+ * Split button above each doc: the main half copies the page as Markdown,
+ * the chevron opens the other export formats. Also rendered in the
+ * breadcrumbs of generated category index pages, which have no doc context.
+ */
 export default function CopyPageButton(): ReactNode {
-  const [copied, setCopied] = useState(false);
-
-  const handleCopy = useCallback(async () => {
-    // Find the main article content
-    const article = document.querySelector("article .markdown");
-    if (!article) return;
-
-    // Clone to avoid mutating the DOM
-    const clone = article.cloneNode(true) as HTMLElement;
-
-    // Remove elements that shouldn't be in the copied content
-    clone
-      .querySelectorAll(
-        ".theme-admonition-icon, .copy-page-button-container, button.clean-btn, .hash-link, nav, [role='navigation']"
-      )
-      .forEach((el) => el.remove());
-
-    // Get the page title from the content heading or document
-    const title = document.querySelector("article header h1")?.textContent ||
-      document.querySelector("h1")?.textContent ||
-      document.title;
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { open, setOpen, containerRef, toggleRef, menuRef, onMenuKeyDown } =
+    useMenu();
+
+  const { siteConfig } = useDocusaurusContext();
+  const { pathname } = useLocation();
+  const version = useDocsVersion();
+  const breadcrumbs = useSidebarBreadcrumbs() ?? [];
+
+  // Categories above the page; a category's own page isn't inside itself.
+  const categories = breadcrumbs.filter(
+    (item): item is PropSidebarItemCategory =>
+      item.type === "category" && item.href !== pathname,
+  );
+  const category = categories.at(-1);
+  const pageContext = (): PageContext => ({
+    title: getPageTitle(),
+    url: new URL(pathname, siteConfig.url).href,
+    version: version.label,
+    breadcrumbs: categories.map((item) => item.label),
+  });
+
+  const report = useCallback((message: string | null) => {
+    if (message === null) return;
+    setStatus(message);
+    setTimeout(() => setStatus(null), 2000);
+  }, []);
 
-    const markdown = turndownService.turndown(clone.innerHTML);
-    const fullContent = `# ${title}\n\n${markdown}`;
+  const run = useCallback(
+    async (action: () => Promise<string | null>) => {
+      setOpen(false);
+      setBusy(true);
+      try {
+        report(await action());
+      } finally {
+        setBusy(false);
+      }
+    },
+    [report],
+  );
 
-    try {
-      await navigator.clipboard.writeText(fullContent);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      // Fallback for older browsers
-      const textarea = document.createElement("textarea");
-      textarea.value = fullContent;
-      textarea.style.position = "fixed";
-      textarea.style.opacity = "0";
-      document.body.appendChild(textarea);
-      textarea.select();
-      document.execCommand("copy");
-      document.body.removeChild(textarea);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  }, []);
+  const copyWith = async (text: string | null): Promise<string | null> => {
+    if (text === null) return null;
+    await copyToClipboard(text);
+    return "Copied!";
+  };
+
+  const actions: MenuAction[] = [
+    {
+      id: "markdown",
+      label: "Copy as Markdown",
+      description: "The page source, including code and front matter",
+      run: async () => ((await copyPageAsMarkdown()) ? "Copied!" : null),
+    },
+    {
+      id: "text",
+      label: "Copy as plain text",
+      description: "The rendered page without formatting",
+      run: () => copyWith(getPageText()),
+    },
+    {
+      id: "download",
+      label: "Download .md",
+      description: "Save the page source as a Markdown file",
+      run: async () => {
+        const markdown = await getCurrentPageMarkdown();
+        if (markdown === null) return null;
+        const slug = pathname.replace(/\/+$/, "").split("/").pop();
+        downloadMarkdown(markdown, `${slug || "index"}.md`);
+        return "Downloaded";
+      },
+    },
+    {
+      id: "prompt",
+      label: "Copy as prompt",
+      description: "With the page URL, docs version and section",
+      run: async () => {
+        const markdown = await getCurrentPageMarkdown();
+        return copyWith(
+          markdown === null ? null : formatPrompt(markdown, pageContext()),
+        );
+      },
+    },
+  ];
+  if (category) {
+    actions.push({
+      id: "category",
+      label: `Copy all of "${category.label}"`,
+      description: "Every page in this sidebar category as one document",
+      run: async () =>
+        copyWith(
+          await fetchCategoryMarkdown(category, version.label, siteConfig.url),
+        ),
+    });
+  }
 
   return (
-    <div className={`copy-page-button-container ${styles.container}`}>
+    <div
+      ref={containerRef}
+      className={`copy-page-button-container ${styles.container}`}
+    >
       <button
-        className={styles.button}
-        onClick={handleCopy}
+        className={`${styles.button} ${styles.main}`}
+        onClick={() => run(actions[0].run)}
+        disabled={busy}
         title="Copy page as Markdown"
         aria-label="Copy page as Markdown"
         type="button"
       >
-        {copied ? (
+        {status ? (
           <>
             <CheckIcon />
-            <span>Copied!</span>
+            <span>{status}</span>
           </>
         ) : (
           <>
@@ -141,6 +160,44 @@ export default function CopyPageButton(): ReactNode {
           </>
         )}
       </button>
+      <button
+        ref={toggleRef}
+        className={`${styles.button} ${styles.toggle}`}
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        disabled={busy}
+        aria-label="More copy options"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={MENU_ID}
+        type="button"
+      >
+        <ChevronIcon />
+      </button>
+      {open && (
+        <ul
+          ref={menuRef}
+          id={MENU_ID}
+          role="menu"
+          className={styles.menu}
+          onKeyDown={onMenuKeyDown}
+        >
+          {actions.map((action) => (
+            <li key={action.id} role="none">
+              <button
+                role="menuitem"
+                type="button"
+                className={styles.menuItem}
+                onClick={() => run(action.run)}
+              >
+                <span className={styles.menuLabel}>{action.label}</span>
+                <span className={styles.menuDescription}>
+                  {action.description}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -179,3 +236,20 @@ function CheckIcon(): ReactNode {
     </svg>
   );
 }
+
+function ChevronIcon(): ReactNode {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="6 9 12 15 18 9" />
+    </svg>
+  );
+}
@@ -0,0 +1,84 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type RefObject,
+} from "react";
+
+export type Menu = {
+  open: boolean;
+  setOpen: (open: boolean | ((open: boolean) => boolean)) => void;
+  /** Wraps the toggle and the menu; a click outside closes the menu. */
+  containerRef: RefObject<HTMLDivElement | null>;
+  toggleRef: RefObject<HTMLButtonElement | null>;
+  menuRef: RefObject<HTMLUListElement | null>;
+  onMenuKeyDown: (event: KeyboardEvent<HTMLUListElement>) => void;
+};
+
+/**
+ * Open state and keyboard handling for a dropdown menu of buttons: focus
+ * moves to the first item on open, arrows/Home/End move between items, and
+ * Escape closes it and returns focus to the toggle.
+ */
+export function useMenu(): Menu {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLUListElement>(null);
+
+  const items = () =>
+    Array.from(
+      menuRef.current?.querySelectorAll<HTMLButtonElement>("button") ?? [],
+    );
+
+  const focusItem = (index: number) => {
+    const buttons = items();
+    if (!buttons.length) return;
+    buttons[(index + buttons.length) % buttons.length].focus();
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    focusItem(0);
+    const onPointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", onPointerDown);
+    return () => document.removeEventListener("mousedown", onPointerDown);
+  }, [open]);
+
+  const onMenuKeyDown = (event: KeyboardEvent<HTMLUListElement>) => {
+    const index = items().indexOf(document.activeElement as HTMLButtonElement);
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        focusItem(index + 1);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        focusItem(index - 1);
+        break;
+      case "Home":
+        event.preventDefault();
+        focusItem(0);
+        break;
+      case "End":
+        event.preventDefault();
+        focusItem(-1);
+        break;
+      case "Escape":
+        event.preventDefault();
+        setOpen(false);
+        toggleRef.current?.focus();
+        break;
+      case "Tab":
+        setOpen(false);
+        break;
+    }
+  };
+
+  return { open, setOpen, containerRef, toggleRef, menuRef, onMenuKeyDown };
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState, type ReactNode } from "react";
+import clsx from "clsx";
+import Link from "@docusaurus/Link";
+import { useDocsVersion } from "@docusaurus/plugin-content-docs/client";
+import Badge from "@site/src/components/mdx/Badge";
+import type {
+  Difficulty,
+  DocMeta,
+  VersionDocMeta,
+} from "@site/plugins/doc-meta";
+import styles from "./styles.module.css";
+
+const DIFFICULTY_TONE = {
+  beginner: "success",
+  intermediate: "signal",
+  advanced: "warn",
+} as const satisfies Record<Difficulty, string>;
+
+/** Versions whose metadata has been imported, by version name. */
+const loadedVersions = new Map<string, VersionDocMeta>();
+
+/**
+ * A doc's metadata from plugins/doc-meta, in the docs version being read,
+ * for doc cards. The version's metadata is imported on first use, so it is
+ * undefined until then, and while prerendering.
+ */
+export function useDocMeta(docId: string | undefined): DocMeta | undefined {
+  const { version } = useDocsVersion();
+  const [versionMeta, setVersionMeta] = useState(() =>
+    loadedVersions.get(version),
+  );
+  useEffect(() => {
+    const loaded = loadedVersions.get(version);
+    setVersionMeta(loaded);
+    if (loaded) return;
+    let cancelled = false;
+    import(`@generated/doc-meta/default/versions/${version}.json`).then(
+      ({ default: meta }: { default: VersionDocMeta }) => {
+        loadedVersions.set(version, meta);
+        if (!cancelled) setVersionMeta(meta);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+  return docId ? versionMeta?.[docId] : undefined;
+}
+
+type Props = {
+  meta: DocMeta;
+  /** Leaves out the prerequisites, for doc cards. */
+  compact?: boolean;
+  className?: string;
+};
+
+/** Difficulty, estimated time and reading time, then prerequisites. */
+export default function DocMetaList({
+  meta,
+  compact = false,
+  className,
+}: Props): ReactNode {
+  const prerequisites = compact ? [] : (meta.prerequisites ?? []);
+  return (
+    <div className={clsx(styles.root, className)}>
+      <ul className={styles.items}>
+        {meta.difficulty ? (
+          <li>
+            <Badge tone={DIFFICULTY_TONE[meta.difficulty]}>
+              {meta.difficulty[0].toUpperCase() + meta.difficulty.slice(1)}
+            </Badge>
+          </li>
+        ) : null}
+        {meta.estimatedTime ? (
+          <li title="Estimated time to complete">{meta.estimatedTime}</li>
+        ) : null}
+        <li title="Reading time, not counting code">
+          {meta.readingTime} min read
+        </li>
+      </ul>
+      {prerequisites.length > 0 ? (
+        <p className={styles.prerequisites}>
+          <span className={styles.label}>Prerequisites:</span>{" "}
+          {prerequisites.map((prerequisite, index) => (
+            <React.Fragment key={prerequisite.label}>
+              {index > 0 ? ", " : null}
+              {prerequisite.href ? (
+                <Link to={prerequisite.href}>{prerequisite.label}</Link>
+              ) : (
+                prerequisite.label
+              )}
+            </React.Fragment>
+          ))}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * The doc's metadata under its title, where plugins/doc-meta/remark.ts puts
+ * it in every doc, with the metadata imported at build time.
+ */
+export function DocHeaderMeta({ meta }: { meta: DocMeta }): ReactNode {
+  return <DocMetaList meta={meta} className={styles.header} />;
+}
@@ -0,0 +1,180 @@
+import React, { useState, type ReactNode } from "react";
+import { useLocation } from "@docusaurus/router";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import {
+  useActiveDocContext,
+  useActivePluginAndVersion,
+  useVersions,
+} from "@docusaurus/plugin-content-docs/client";
+import {
+  copyToClipboard,
+  getSectionMarkdown,
+} from "../CopyPageButton/copyPage";
+import { useMenu } from "../CopyPageButton/useMenu";
+import menuStyles from "../CopyPageButton/styles.module.css";
+import styles from "./styles.module.css";
+
+type MenuAction = {
+  id: string;
+  label: string;
+  description: string;
+  run: (heading: HTMLElement) => string;
+};
+
+type Props = {
+  /** The heading's anchor id. */
+  id: string;
+};
+
+/**
+ * Menu next to every h2/h3 of a doc (see the Heading wrapper): copy the
+ * section as Markdown, or a link to the heading pinned to the docs version
+ * being read or on /next/. Renders nothing outside the docs.
+ */
+export default function HeadingMenu({ id }: Props): ReactNode {
+  const active = useActivePluginAndVersion();
+  if (!active?.activeVersion) return null;
+  return <DocHeadingMenu id={id} pluginId={active.activePlugin.pluginId} />;
+}
+
+function DocHeadingMenu({
+  id,
+  pluginId,
+}: Props & { pluginId: string }): ReactNode {
+  const [copied, setCopied] = useState(false);
+  const { open, setOpen, containerRef, toggleRef, menuRef, onMenuKeyDown } =
+    useMenu();
+
+  const { siteConfig } = useDocusaurusContext();
+  const { pathname } = useLocation();
+  const versions = useVersions(pluginId);
+  const { activeVersion, alternateDocVersions } = useActiveDocContext(pluginId);
+  const nextVersion = versions.find((version) => version.name === "current");
+
+  const link = (path: string) => new URL(`${path}#${id}`, siteConfig.url).href;
+
+  const actions: MenuAction[] = [
+    {
+      id: "section",
+      label: "Copy section as Markdown",
+      description: "This heading through to the next one at its level",
+      run: (heading) => getSectionMarkdown(heading),
+    },
+  ];
+  if (activeVersion && activeVersion.name !== "current") {
+    // The latest version is served without its version prefix; the prefixed
+    // path redirects there until the next version cut, then keeps pointing
+    // at this version (see createRedirects in docusaurus.config.ts).
+    const versionBase = activeVersion.path.replace(/\/$/, "");
+    const pinnedPath = `/${activeVersion.name}${pathname.slice(versionBase.length)}`;
+    actions.push({
+      id: "pinned",
+      label: `Copy link pinned to ${activeVersion.label}`,
+      description: "Stays on this version after new releases",
+      run: () => link(pinnedPath),
+    });
+    const nextDoc = alternateDocVersions.current;
+    if (nextDoc && nextVersion) {
+      actions.push({
+        id: "next",
+        label: `Copy link to ${nextVersion.label}`,
+        description: "The same section in the unreleased docs",
+        run: () => link(nextDoc.path),
+      });
+    }
+  } else {
+    actions.push({
+      id: "link",
+      label: "Copy link",
+      description: "Unreleased docs have no pinned version yet",
+      run: () => link(pathname),
+    });
+  }
+
+  const run = async (action: MenuAction) => {
+    setOpen(false);
+    const heading = containerRef.current?.closest<HTMLElement>("h2, h3");
+    if (!heading) return;
+    await copyToClipboard(action.run(heading));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <span ref={containerRef} className={`heading-menu ${styles.container}`}>
+      <button
+        ref={toggleRef}
+        type="button"
+        className={styles.toggle}
+        onClick={() => setOpen((isOpen) => !isOpen)}
+        aria-label={copied ? "Copied" : "Section options"}
+        title={copied ? "Copied" : "Copy section or link"}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={open ? `${id}-menu` : undefined}
+      >
+        {copied ? <CheckIcon /> : <MenuIcon />}
+      </button>
+      {open && (
+        <ul
+          ref={menuRef}
+          id={`${id}-menu`}
+          role="menu"
+          className={`${menuStyles.menu} ${styles.menu}`}
+          onKeyDown={onMenuKeyDown}
+        >
+          {actions.map((action) => (
+            <li key={action.id} role="none">
+              <button
+                role="menuitem"
+                type="button"
+                className={menuStyles.menuItem}
+                onClick={() => run(action)}
+              >
+                <span className={menuStyles.menuLabel}>{action.label}</span>
+                <span className={menuStyles.menuDescription}>
+                  {action.description}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </span>
+  );
+}
+
+function MenuIcon(): ReactNode {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+      <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+    </svg>
+  );
+}
+
+function CheckIcon(): ReactNode {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="20 6 9 17 4 12" />
+    </svg>
+  );
+}
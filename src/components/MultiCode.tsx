@@ -0,0 +1,128 @@
+import React, { useState, type ReactNode } from "react";
+import CodeBlock from "@theme/CodeBlock";
+import type { CopyTab } from "./CopyPageButton/copyPage";
+import { useCodeLanguage } from "./codeLanguage";
+import { getFenceTabs } from "./codeFences";
+import TerminalOutput from "./TerminalOutput";
+import styles from "./MultiCode.module.css";
+
+export interface MultiCodeTab {
+  /** Tab button text, e.g. "Rust client" or "CLI". */
+  label: string;
+  /**
+   * The code language this tab stands for in the reader's preference (see
+   * ./codeLanguage.ts), e.g. `rust` or `cli`; defaults to `language`.
+   */
+  value?: string;
+  /** Prism language of the code, e.g. `rust`, `ts`, `masm`, `bash`. */
+  language: string;
+  /** Shown as the code block's title. */
+  filename?: string;
+  /** Code block metadata such as `{3-5}` line highlights. */
+  metastring?: string;
+  code: string;
+  /** Shown under the code, as the result of running it. */
+  output?: string;
+}
+
+interface MultiCodeProps {
+  /**
+   * In display order; the first tab is shown when the reader's preferred
+   * language isn't one of them.
+   */
+  tabs?: MultiCodeTab[];
+  /** Fenced code blocks, one per tab, instead of `tabs` (see ./codeFences.ts). */
+  children?: ReactNode;
+}
+
+/**
+ * The same example in several languages or tools, one tab each. A single
+ * tab is shown without the tab bar. In MDX, write each tab as a fenced code
+ * block inside the element:
+ *
+ *     <MultiCode>
+ *
+ *     ```rust title="main.rs"
+ *     …
+ *     ```
+ *
+ *     ```bash label="CLI" value="cli"
+ *     …
+ *     ```
+ *
+ *     </MultiCode>
+ *
+ * Choosing a tab sets the reader's code language for every block on the
+ * site, and for `<Tabs groupId="lang">`.
+ */
+export default function MultiCode({
+  tabs: tabsProp,
+  children,
+}: MultiCodeProps): JSX.Element {
+  const tabs = tabsProp ?? getFenceTabs(children);
+  const [language, setLanguage] = useCodeLanguage();
+  // The last tab chosen here, for when the preference isn't one of the tabs.
+  const [chosenIndex, setChosenIndex] = useState(0);
+  const valueOf = (tab: MultiCodeTab) => tab.value ?? tab.language;
+  const active =
+    tabs.find((tab) => valueOf(tab) === language) ??
+    tabs[Math.min(chosenIndex, tabs.length - 1)];
+
+  // Only the active tab is rendered; "Copy page" reads all of them from here
+  const copyTabs: CopyTab[] = tabs.map(
+    ({ label, language, filename, code, output }) => ({
+      label,
+      language,
+      filename,
+      code,
+      output,
+    }),
+  );
+
+  return (
+    <div
+      className={styles.codeContainer}
+      data-copy-tabs={JSON.stringify(copyTabs)}
+    >
+      {tabs.length > 1 && (
+        <div className={styles.tabContainer}>
+          <div className={styles.tabButtons} role="tablist">
+            {tabs.map((tab, index) => (
+              <button
+                key={`${index}-${tab.label}`}
+                type="button"
+                role="tab"
+                aria-selected={tab === active}
+                className={`${styles.tabButton} ${
+                  tab === active ? styles.active : ""
+                }`}
+                onClick={() => {
+                  setChosenIndex(index);
+                  setLanguage(valueOf(tab));
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {active && (
+        <div className={styles.codeSection}>
+          <CodeBlock
+            language={active.language}
+            title={active.filename}
+            metastring={active.metastring}
+          >
+            {active.code}
+          </CodeBlock>
+        </div>
+      )}
+
+      {active?.output && (
+        <TerminalOutput output={active.output} className={styles.output} />
+      )}
+    </div>
+  );
+}
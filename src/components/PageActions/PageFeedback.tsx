@@ -0,0 +1,179 @@
+import React, { useMemo, useState, type ReactNode } from "react";
+import { useLocation } from "@docusaurus/router";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import { useDocsVersion } from "@docusaurus/plugin-content-docs/client";
+import {
+  FEEDBACK_REASONS,
+  createFeedbackAdapter,
+  type FeedbackConfig,
+  type FeedbackReason,
+  type FeedbackValue,
+} from "./feedback";
+import { useFeedbackVote } from "./useFeedbackVote";
+import styles from "./styles.module.css";
+
+type Step = "prompt" | "reason";
+
+/**
+ * "Was this page helpful?" — or, once the reader has voted on this page and
+ * version, their vote with a way to undo or change it.
+ */
+export default function PageFeedback(): ReactNode {
+  const version = useDocsVersion();
+  const { pathname } = useLocation();
+  const { siteConfig } = useDocusaurusContext();
+  const adapter = useMemo(
+    () =>
+      createFeedbackAdapter(
+        siteConfig.customFields?.feedback as FeedbackConfig | undefined,
+      ),
+    [siteConfig.customFields],
+  );
+  const { vote, status, record, undo, retry } = useFeedbackVote(
+    pathname,
+    version.version,
+    adapter,
+  );
+
+  // Only set while (re)voting; otherwise shown from the stored vote.
+  const [step, setStep] = useState<Step | null>(null);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState("");
+
+  const submit = (value: FeedbackValue) => {
+    record({
+      value,
+      reason: value === "no" ? reason : null,
+      comment: value === "no" ? comment.trim() || null : null,
+    });
+    setStep(null);
+  };
+
+  const change = () => {
+    setReason(vote?.reason ?? null);
+    setComment(vote?.comment ?? "");
+    setStep("prompt");
+  };
+
+  if (step === "reason") {
+    return (
+      <form
+        className={styles.reasonForm}
+        onSubmit={(event) => {
+          event.preventDefault();
+          submit("no");
+        }}
+      >
+        <fieldset className={styles.reasons}>
+          <legend className={styles.helpfulLabel}>What went wrong?</legend>
+          {FEEDBACK_REASONS.map((option) => (
+            <label
+              key={option.id}
+              className={`${styles.pill} ${
+                reason === option.id ? styles.pillSelected : ""
+              }`}
+            >
+              <input
+                type="radio"
+                name="feedback-reason"
+                className={styles.radio}
+                value={option.id}
+                checked={reason === option.id}
+                onChange={() => setReason(option.id)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <textarea
+          className={styles.comment}
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          placeholder="Anything else we should know? (optional)"
+          aria-label="Comment"
+          maxLength={2000}
+          rows={3}
+        />
+        <div className={styles.formActions}>
+          <button type="submit" className={styles.btn}>
+            Send feedback
+          </button>
+          <button
+            type="button"
+            className={styles.btn}
+            onClick={() => setStep(vote ? null : "prompt")}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!vote || step === "prompt") {
+    return (
+      <>
+        <span className={styles.helpfulLabel}>Was this page helpful?</span>
+        <button
+          type="button"
+          className={styles.pill}
+          onClick={() => submit("yes")}
+          aria-label="Yes, this page was helpful"
+        >
+          <span aria-hidden="true">👍</span> Yes
+        </button>
+        <button
+          type="button"
+          className={styles.pill}
+          // A "No" asks what went wrong before it is recorded.
+          onClick={() => setStep("reason")}
+          aria-label="No, this page was not helpful"
+        >
+          <span aria-hidden="true">👎</span> No
+        </button>
+        {vote ? (
+          <button
+            type="button"
+            className={styles.textButton}
+            onClick={() => setStep(null)}
+          >
+            Keep my answer
+          </button>
+        ) : null}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <span className={styles.thanks}>
+        You said this page was{" "}
+        {vote.value === "yes" ? "helpful" : "not helpful"}
+      </span>
+      <span aria-hidden="true">·</span>
+      {status === "pending" ? (
+        <button type="button" className={styles.textButton} onClick={undo}>
+          Undo
+        </button>
+      ) : (
+        <button type="button" className={styles.textButton} onClick={change}>
+          Change
+        </button>
+      )}
+      {status === "error" ? (
+        <>
+          <span className={styles.helpfulLabel}>
+            Couldn't send your feedback.
+          </span>
+          <button
+            type="button"
+            className={styles.textButton}
+            onClick={() => void retry()}
+          >
+            Try again
+          </button>
+        </>
+      ) : null}
+    </>
+  );
+}
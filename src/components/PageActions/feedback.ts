@@ -0,0 +1,65 @@
+export type FeedbackValue = "yes" | "no";
+
+/** Why a page wasn't helpful, as offered after a "No" vote. */
+export const FEEDBACK_REASONS = [
+  { id: "outdated", label: "Outdated" },
+  { id: "code-does-not-compile", label: "Code doesn't compile" },
+  { id: "unclear", label: "Unclear" },
+  { id: "missing-topic", label: "Missing topic" },
+] as const;
+
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number]["id"];
+
+export type FeedbackPayload = {
+  /** Pathname of the doc, e.g. `/0.13/builder/get-started/`. */
+  path: string;
+  /** Docs version name: `current` for /next/, else e.g. `0.14`. */
+  version: string;
+  value: FeedbackValue;
+  reason: FeedbackReason | null;
+  comment: string | null;
+};
+
+/** `customFields.feedback` in docusaurus.config.ts. */
+export type FeedbackConfig = {
+  /** URL the feedback is POSTed to as JSON; logged to the console if unset. */
+  endpoint?: string | null;
+};
+
+export type FeedbackAdapter = {
+  /** Rejects if the feedback could not be delivered. */
+  send(payload: FeedbackPayload): Promise<void>;
+};
+
+const consoleAdapter: FeedbackAdapter = {
+  async send(payload) {
+    console.log("[page-feedback]", payload);
+  },
+};
+
+function httpAdapter(endpoint: string): FeedbackAdapter {
+  return {
+    async send(payload) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        // Still delivered if the reader navigates away right after voting.
+        keepalive: true,
+      });
+      if (!response.ok) {
+        throw new Error(`Feedback endpoint answered ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * The adapter for the configured backend. For development, run
+ * scripts/feedback-receiver.mjs and point the endpoint at it.
+ */
+export function createFeedbackAdapter(
+  config: FeedbackConfig | undefined,
+): FeedbackAdapter {
+  return config?.endpoint ? httpAdapter(config.endpoint) : consoleAdapter;
+}
@@ -1,9 +1,16 @@
-import React, { useState } from "react";
-import { useDoc } from "@docusaurus/plugin-content-docs/client";
+import React, { useRef, useState } from "react";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import { useDoc, useDocsVersion } from "@docusaurus/plugin-content-docs/client";
+import PageFeedback from "./PageFeedback";
+import { getReportIssueUrl, getSelectedText } from "./reportIssue";
+import {
+  getIngestedRepo,
+  getUpstreamSource,
+  INGESTED_OWNER,
+  type ReleaseConfig,
+} from "./upstreamSource";
 import styles from "./styles.module.css";
 
-type Feedback = "idle" | "yes" | "no";
-
 function formatRelativeDate(input: number | string | undefined): string | null {
   if (!input) return null;
   const d = typeof input === "number" ? new Date(input * 1000) : new Date(input);
@@ -21,15 +28,42 @@ function formatRelativeDate(input: number | string | undefined): string | null {
 
 export default function PageActions(): JSX.Element | null {
   const doc = useDoc();
-  const [feedback, setFeedback] = useState<Feedback>("idle");
+  const version = useDocsVersion();
+  const { siteConfig } = useDocusaurusContext();
   const [copied, setCopied] = useState(false);
 
   const lastUpdate =
-    doc?.metadata?.lastUpdatedAt ?? doc?.metadata?.frontMatter?.last_update;
+    doc.metadata.lastUpdatedAt ?? doc.metadata.frontMatter.last_update;
   const updatedLabel =
     formatRelativeDate(lastUpdate as number | string | undefined);
 
-  const editUrl = doc?.metadata?.editUrl;
+  const editUrl = doc.metadata.editUrl;
+  // Ingested docs are edited in the repo they were copied from.
+  const upstream = getUpstreamSource(
+    doc.metadata.source,
+    version.version,
+    siteConfig.customFields?.release as ReleaseConfig | undefined
+  );
+  const ingestedRepo = getIngestedRepo(doc.metadata.source);
+  // Clicking the button can clear the selection, so keep it from before.
+  const selection = useRef("");
+
+  const handleReportIssue = () => {
+    const url = getReportIssueUrl({
+      repo: ingestedRepo
+        ? `${INGESTED_OWNER}/${ingestedRepo}`
+        : `${siteConfig.organizationName}/${siteConfig.projectName}`,
+      title: doc.metadata.title,
+      url: new URL(doc.metadata.permalink, siteConfig.url).href,
+      versionLabel: version.label,
+      source: doc.metadata.source,
+      ingestedRepo,
+      upstream,
+      selection: selection.current || getSelectedText(),
+    });
+    selection.current = "";
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
 
   const handleCopy = async () => {
     if (typeof window === "undefined") return;
@@ -42,12 +76,6 @@ export default function PageActions(): JSX.Element | null {
     }
   };
 
-  const handleFeedback = (v: "yes" | "no") => {
-    setFeedback(v);
-    /* eslint-disable-next-line no-console */
-    console.log("[page-feedback]", { url: window.location.pathname, value: v });
-  };
-
   return (
     <aside className={styles.root} aria-label="Page actions">
       <div className={styles.row}>
@@ -55,7 +83,22 @@ export default function PageActions(): JSX.Element | null {
           {updatedLabel ? `Updated ${updatedLabel}` : null}
         </div>
         <div className={styles.actions}>
-          {editUrl ? (
+          {upstream ? (
+            <a
+              className={styles.btn}
+              href={upstream.url}
+              target="_blank"
+              rel="noreferrer noopener"
+              title={`${upstream.repo}@${upstream.ref}`}
+            >
+              <span aria-hidden="true">↗</span>
+              <span>
+                {upstream.editable
+                  ? `Edit in ${upstream.repo}`
+                  : `Source: ${upstream.repo}@${upstream.refName}`}
+              </span>
+            </a>
+          ) : editUrl ? (
             <a
               className={styles.btn}
               href={editUrl}
@@ -66,6 +109,18 @@ export default function PageActions(): JSX.Element | null {
               <span>Edit on GitHub</span>
             </a>
           ) : null}
+          <button
+            type="button"
+            className={styles.btn}
+            onPointerDown={() => {
+              selection.current = getSelectedText();
+            }}
+            onClick={handleReportIssue}
+            title={`Open an issue on ${ingestedRepo ?? siteConfig.projectName}, with any text you've selected`}
+          >
+            <span aria-hidden="true">!</span>
+            <span>Report issue</span>
+          </button>
           <button
             type="button"
             className={styles.btn}
@@ -79,31 +134,7 @@ export default function PageActions(): JSX.Element | null {
       </div>
 
       <div className={styles.helpful}>
-        {feedback === "idle" ? (
-          <>
-            <span className={styles.helpfulLabel}>Was this page helpful?</span>
-            <button
-              type="button"
-              className={styles.pill}
-              onClick={() => handleFeedback("yes")}
-              aria-label="Yes, this page was helpful"
-            >
-              <span aria-hidden="true">👍</span> Yes
-            </button>
-            <button
-              type="button"
-              className={styles.pill}
-              onClick={() => handleFeedback("no")}
-              aria-label="No, this page was not helpful"
-            >
-              <span aria-hidden="true">👎</span> No
-            </button>
-          </>
-        ) : (
-          <span className={styles.thanks}>
-            Thanks for the feedback.
-          </span>
-        )}
+        <PageFeedback />
       </div>
     </aside>
   );
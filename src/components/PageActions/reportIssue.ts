@@ -0,0 +1,74 @@
+import type { UpstreamSource } from "./upstreamSource";
+
+/** Longer selections are cut so the issue URL stays within GitHub's limit. */
+const MAX_SELECTION_LENGTH = 1000;
+
+type IssueContext = {
+  /** `owner/name` of the repo the issue is filed on. */
+  repo: string;
+  title: string;
+  /** Absolute URL of the page. */
+  url: string;
+  /** Label of the docs version, e.g. `0.14` or `0.15 (unstable)`. */
+  versionLabel: string;
+  /** `@site/`-relative source of the doc, as in its metadata. */
+  source: string;
+  /** The repo an ingested doc was copied from; null if authored here. */
+  ingestedRepo: string | null;
+  upstream: UpstreamSource | null;
+  /** Text the reader had selected on the page, if any. */
+  selection: string;
+};
+
+function quote(text: string): string {
+  const cut =
+    text.length > MAX_SELECTION_LENGTH
+      ? `${text.slice(0, MAX_SELECTION_LENGTH)}…`
+      : text;
+  return cut
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+    .join("\n");
+}
+
+/**
+ * A "new issue" URL with the title and body filled in from the page, so
+ * reports always say which page, version and upstream ref they are about.
+ */
+export function getReportIssueUrl({
+  repo,
+  title,
+  url,
+  versionLabel,
+  source,
+  ingestedRepo,
+  upstream,
+  selection,
+}: IssueContext): string {
+  const sourceLine = upstream
+    ? `${upstream.repo}@${upstream.ref}`
+    : ingestedRepo
+      ? `${ingestedRepo} (ref not recorded for this version)`
+      : `\`${source.replace(/^@site\//, "")}\``;
+  const body = [
+    `**Page:** [${title}](${url})`,
+    `**Docs version:** ${versionLabel}`,
+    `**Source:** ${sourceLine}`,
+    ...(selection ? ["", "**Selected text:**", "", quote(selection)] : []),
+    "",
+    "**What's wrong?**",
+    "",
+    "<!-- Describe the problem, and what you expected instead. -->",
+  ].join("\n");
+
+  const params = new URLSearchParams({
+    title: `[docs] ${title} (${versionLabel})`,
+    body,
+  });
+  return `https://github.com/${repo}/issues/new?${params}`;
+}
+
+/** The text currently selected on the page, trimmed. */
+export function getSelectedText(): string {
+  return window.getSelection()?.toString().trim() ?? "";
+}
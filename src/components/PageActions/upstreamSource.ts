@@ -0,0 +1,62 @@
+import { getRefName, isBranchRef } from "@site/plugins/utils/gitRef";
+import { findIngested, INGESTED_OWNER } from "@site/plugins/utils/ingested";
+
+export { getIngestedRepo, INGESTED_OWNER } from "@site/plugins/utils/ingested";
+
+/** `customFields.release` in docusaurus.config.ts. */
+export type ReleaseConfig = {
+  /** Docs version the refs were pinned for, e.g. `0.14`. */
+  version: string;
+  /** Version `current` (/next/) will be released as, e.g. `0.15`. */
+  nextVersion: string;
+  /** Full ref of each ingested repo, e.g. `protocol: refs/tags/v0.14.6`. */
+  refs: Record<string, string>;
+};
+
+export type UpstreamSource = {
+  repo: string;
+  /** Full ref the doc was ingested from, e.g. `refs/tags/v0.14.6`. */
+  ref: string;
+  /** Branch or tag name of `ref`. */
+  refName: string;
+  /** GitHub editor for branches, the file view for tags. */
+  url: string;
+  editable: boolean;
+};
+
+/**
+ * The upstream file an ingested doc was copied from, at the ref it was
+ * copied at: the repo's default branch for the current (/next/) docs, the
+ * release manifest's pinned ref for the released version. Null for docs
+ * authored here and for older versions, whose refs aren't recorded.
+ *
+ * @param source `@site/`-relative source of the doc, as in its metadata.
+ */
+export function getUpstreamSource(
+  source: string,
+  versionName: string,
+  release: ReleaseConfig | undefined,
+): UpstreamSource | null {
+  const found = findIngested(source);
+  if (!found) return null;
+  const { ingested, docPath } = found;
+
+  const ref =
+    versionName === "current"
+      ? `refs/heads/${ingested.branch}`
+      : versionName === release?.version
+        ? release.refs[ingested.repo]
+        : undefined;
+  if (!ref) return null;
+
+  const refName = getRefName(ref);
+  const editable = isBranchRef(ref);
+  const file = ingested.upstreamPath + docPath.slice(ingested.docsPath.length);
+  return {
+    repo: ingested.repo,
+    ref,
+    refName,
+    url: `https://github.com/${INGESTED_OWNER}/${ingested.repo}/${editable ? "edit" : "blob"}/${refName}/${file}`,
+    editable,
+  };
+}
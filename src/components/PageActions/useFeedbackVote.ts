@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createStorageSlot } from "@docusaurus/theme-common";
+import type {
+  FeedbackAdapter,
+  FeedbackReason,
+  FeedbackValue,
+} from "./feedback";
+
+export type Vote = {
+  value: FeedbackValue;
+  reason: FeedbackReason | null;
+  comment: string | null;
+};
+
+type StoredVote = {
+  vote: Vote;
+  /** The last vote delivered for the page, to skip sending it again. */
+  sent: Vote | null;
+};
+
+/**
+ * - `pending`: recorded, sent once the undo window has passed
+ * - `sending`, `error`: delivery of the recorded vote
+ * - `sent`: delivered, or nothing to send
+ */
+export type VoteStatus = "pending" | "sending" | "sent" | "error";
+
+/** How long a vote can be undone before it is sent. */
+const UNDO_WINDOW_MS = 5000;
+
+/** Votes by `<version>:<path>`. */
+const votesSlot = createStorageSlot("miden.pageFeedback.votes");
+
+function readVotes(): Record<string, StoredVote> {
+  try {
+    const votes = JSON.parse(votesSlot.get() ?? "{}");
+    return typeof votes === "object" && votes !== null ? votes : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeVote(key: string, stored: StoredVote | null): void {
+  const votes = readVotes();
+  if (stored) votes[key] = stored;
+  else delete votes[key];
+  votesSlot.set(JSON.stringify(votes));
+}
+
+function isSameVote(a: Vote | null, b: Vote | null): boolean {
+  return (
+    a?.value === b?.value &&
+    a?.reason === b?.reason &&
+    a?.comment === b?.comment
+  );
+}
+
+/**
+ * The reader's feedback vote for a doc, remembered per path and version in
+ * localStorage so the prompt isn't shown again on every visit.
+ *
+ * A vote is sent after a short undo window, or right away when the reader
+ * leaves the page, and only if it differs from the last vote sent for the
+ * page: voting twice, or changing a vote and back, sends nothing new. Votes
+ * that couldn't be delivered are retried on the next visit.
+ */
+export function useFeedbackVote(
+  path: string,
+  version: string,
+  adapter: FeedbackAdapter,
+) {
+  const key = `${version}:${path}`;
+  const [stored, setStored] = useState<StoredVote | null>(null);
+  const [status, setStatus] = useState<VoteStatus>("sent");
+  const timer = useRef<number | null>(null);
+  // What to restore on undo: the entry before the pending vote.
+  const previous = useRef<StoredVote | null>(null);
+
+  const update = useCallback(
+    (next: StoredVote | null) => {
+      writeVote(key, next);
+      setStored(next);
+    },
+    [key],
+  );
+
+  const flush = useCallback(async () => {
+    if (timer.current !== null) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+    }
+    const current = readVotes()[key];
+    if (!current || isSameVote(current.vote, current.sent)) {
+      setStatus("sent");
+      return;
+    }
+    setStatus("sending");
+    try {
+      await adapter.send({ path, version, ...current.vote });
+      update({ vote: current.vote, sent: current.vote });
+      setStatus("sent");
+    } catch {
+      setStatus("error");
+    }
+  }, [adapter, key, path, update, version]);
+
+  // Load on mount (localStorage isn't available while prerendering) and
+  // retry a vote that wasn't delivered last time.
+  useEffect(() => {
+    const current = readVotes()[key] ?? null;
+    setStored(current);
+    if (current && !isSameVote(current.vote, current.sent)) void flush();
+  }, [flush, key]);
+
+  // Send a pending vote before the reader leaves.
+  useEffect(() => {
+    const onPageHide = () => {
+      if (timer.current !== null) void flush();
+    };
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      onPageHide();
+    };
+  }, [flush]);
+
+  const record = useCallback(
+    (vote: Vote) => {
+      previous.current = readVotes()[key] ?? null;
+      update({ vote, sent: previous.current?.sent ?? null });
+      setStatus("pending");
+      if (timer.current !== null) window.clearTimeout(timer.current);
+      timer.current = window.setTimeout(() => void flush(), UNDO_WINDOW_MS);
+    },
+    [flush, key, update],
+  );
+
+  const undo = useCallback(() => {
+    if (timer.current !== null) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+    }
+    update(previous.current);
+    setStatus("sent");
+  }, [update]);
+
+  return { vote: stored?.vote ?? null, status, record, undo, retry: flush };
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useState, type ReactNode } from "react";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import useIsBrowser from "@docusaurus/useIsBrowser";
+import { useDoc, useDocsVersion } from "@docusaurus/plugin-content-docs/client";
+import Callout from "@site/src/components/mdx/Callout";
+import {
+  checksAge,
+  getStaleReasons,
+  type StalenessPolicy,
+  type StaleReason,
+} from "@site/plugins/utils/staleness";
+import type { ReleaseConfig } from "@site/src/components/PageActions/upstreamSource";
+import type { VersionLastUpdates } from "@site/plugins/stale-report";
+
+function formatAge(days: number): string {
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  if (days < 365) return `${Math.round(days / 30)} months`;
+  const years = Math.floor(days / 365);
+  return years === 1 ? "over a year" : `over ${years} years`;
+}
+
+function describe(reason: StaleReason, versionLabel: string): string {
+  return reason.kind === "age"
+    ? `It was last updated ${formatAge(reason.days)} ago.`
+    : `It was written for Miden ${reason.appliesTo.join(" and ")}, and you're reading the ${versionLabel} docs.`;
+}
+
+/**
+ * When a doc was last committed, from plugins/stale-report, for versions
+ * whose age is checked; imported once hydrated, so undefined until then.
+ */
+function useLastUpdatedAt(
+  version: string,
+  docId: string,
+  checked: boolean,
+): number | undefined {
+  const [lastUpdates, setLastUpdates] = useState<VersionLastUpdates>();
+  useEffect(() => {
+    setLastUpdates(undefined);
+    if (!checked) return;
+    let cancelled = false;
+    import(`@generated/stale-report/default/${version}.json`).then(
+      ({ default: loaded }: { default: VersionLastUpdates }) => {
+        if (!cancelled) setLastUpdates(loaded);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [version, checked]);
+  return lastUpdates?.[docId];
+}
+
+/**
+ * "This page may be outdated" above a doc that fails the staleness policy
+ * in `customFields.staleness`; the build's stale-page report lists the same
+ * docs (see plugins/stale-report).
+ */
+export default function StaleBanner(): ReactNode {
+  const { metadata, frontMatter } = useDoc();
+  const version = useDocsVersion();
+  const { siteConfig } = useDocusaurusContext();
+  // The age depends on when the page is read, so it's only checked once
+  // hydrated; prerendering and hydration both skip it.
+  const isBrowser = useIsBrowser();
+  const checked = checksAge(version.version, version.isLast);
+  const lastUpdatedAt = useLastUpdatedAt(version.version, metadata.id, checked);
+
+  const policy = siteConfig.customFields?.staleness as
+    StalenessPolicy | undefined;
+  const release = siteConfig.customFields?.release as ReleaseConfig | undefined;
+  if (!policy || !release) return null;
+
+  const reasons = getStaleReasons(
+    {
+      id: metadata.id,
+      lastUpdatedAt,
+      appliesTo: (frontMatter as { applies_to?: unknown }).applies_to,
+    },
+    version.version === "current" ? release.nextVersion : version.version,
+    policy,
+    isBrowser && checked ? Date.now() : null,
+  );
+  if (reasons.length === 0) return null;
+
+  return (
+    <Callout variant="warn" title="This page may be outdated">
+      {reasons.map((reason) => describe(reason, version.label)).join(" ")} Check
+      it against the current release before relying on it.
+    </Callout>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useState, type CSSProperties, type ReactNode } from "react";
+import clsx from "clsx";
+import {
+  parseAnsi,
+  stripAnsi,
+  type AnsiSegment,
+  type AnsiStyle,
+} from "@site/plugins/utils/ansi";
+import {
+  diffLines,
+  formatDiff,
+  type DiffLine,
+} from "@site/plugins/utils/lineDiff";
+import { getFences } from "../codeFences";
+import { copyToClipboard } from "../CopyPageButton/copyPage";
+import styles from "./styles.module.css";
+
+/** Longer output is cut to this many lines until "Show all" is clicked. */
+const DEFAULT_MAX_LINES = 25;
+
+type TerminalOutputProps = {
+  /** What the command printed; ANSI colours are shown. */
+  output?: string;
+  /**
+   * Output to compare `output` with, such as the expected output or that
+   * of the step before; shows the lines that changed.
+   */
+  before?: string;
+  /**
+   * Instead of `output` and `before`, in MDX: a fenced code block with the
+   * output, or two to diff, before then after. A fence's `title` labels it.
+   */
+  children?: ReactNode;
+  title?: string;
+  maxLines?: number;
+  className?: string;
+};
+
+type Row = {
+  segments: AnsiSegment[];
+  kind?: DiffLine["kind"];
+};
+
+const DIFF_MARKERS: Record<DiffLine["kind"], string> = {
+  unchanged: " ",
+  removed: "−",
+  added: "+",
+};
+
+function getSegmentProps(style: AnsiStyle): {
+  className?: string;
+  style?: CSSProperties;
+} {
+  const { foreground, background } = style;
+  const className = clsx(
+    typeof foreground === "number" && styles[`fg${foreground}`],
+    typeof background === "number" && styles[`bg${background}`],
+    style.bold && styles.bold,
+    style.dim && styles.dim,
+    style.italic && styles.italic,
+    style.underline && styles.underline,
+  );
+  const inline: CSSProperties = {
+    color: typeof foreground === "string" ? foreground : undefined,
+    backgroundColor: typeof background === "string" ? background : undefined,
+  };
+  return {
+    className: className || undefined,
+    style: inline.color || inline.backgroundColor ? inline : undefined,
+  };
+}
+
+const lineText = (segments: AnsiSegment[]) =>
+  segments.map((segment) => segment.text).join("");
+
+/**
+ * Terminal output: ANSI colours rendered, long output collapsed to its
+ * first lines with a "Show all" toggle, and optionally the diff from a
+ * `before` output, for steps that change what a command prints.
+ *
+ *     <TerminalOutput>
+ *
+ *     ```text title="Expected"
+ *     …
+ *     ```
+ *
+ *     ```text title="Actual"
+ *     …
+ *     ```
+ *
+ *     </TerminalOutput>
+ */
+export default function TerminalOutput({
+  output: outputProp,
+  before: beforeProp,
+  children,
+  title,
+  maxLines = DEFAULT_MAX_LINES,
+  className,
+}: TerminalOutputProps): JSX.Element {
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const fences =
+    outputProp === undefined ? getFences(children, "TerminalOutput") : [];
+  const [beforeFence, outputFence] =
+    fences.length > 1 ? fences : [undefined, fences[0]];
+  const output = outputProp ?? outputFence?.code ?? "";
+  const before = beforeProp ?? beforeFence?.code;
+
+  const lines = parseAnsi(output);
+  let rows: Row[] = lines.map((segments) => ({ segments }));
+  let heading = title ?? outputFence?.title ?? "Output";
+  // What the Copy button and "Copy page" (see CopyPageButton/copyPage.ts)
+  // take from here.
+  let copyText = stripAnsi(output);
+  if (before !== undefined) {
+    const beforeLines = parseAnsi(before);
+    const afterText = lines.map(lineText);
+    copyText = formatDiff(beforeLines.map(lineText), afterText);
+    rows = diffLines(beforeLines.map(lineText), afterText).map(
+      ({ kind, index }) => ({
+        segments: (kind === "removed" ? beforeLines : lines)[index],
+        kind,
+      }),
+    );
+    heading =
+      title ??
+      `${beforeFence?.title ?? "Before"} → ${outputFence?.title ?? "After"}`;
+  }
+  const collapsed = !expanded && rows.length > maxLines;
+
+  const handleCopy = async () => {
+    await copyToClipboard(copyText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div
+      className={clsx(styles.root, className)}
+      data-copy-output={copyText}
+      data-copy-language={before === undefined ? "text" : "diff"}
+    >
+      <div className={styles.header}>
+        <span className={styles.title}>{heading}</span>
+        <button type="button" className={styles.button} onClick={handleCopy}>
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre className={clsx(styles.body, collapsed && styles.collapsed)}>
+        <code>
+          {(collapsed ? rows.slice(0, maxLines) : rows).map((row, index) => (
+            <span
+              key={index}
+              className={clsx(styles.line, row.kind && styles[row.kind])}
+            >
+              {row.kind && (
+                <span className={styles.marker} aria-hidden="true">
+                  {DIFF_MARKERS[row.kind]}
+                </span>
+              )}
+              {row.segments.map((segment, segmentIndex) => (
+                <span key={segmentIndex} {...getSegmentProps(segment.style)}>
+                  {segment.text}
+                </span>
+              ))}
+              {"\n"}
+            </span>
+          ))}
+        </code>
+      </pre>
+      {rows.length > maxLines && (
+        <button
+          type="button"
+          className={styles.toggle}
+          aria-expanded={expanded}
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? "Show less" : `Show all ${rows.length} lines`}
+        </button>
+      )}
+    </div>
+  );
+}
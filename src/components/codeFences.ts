@@ -0,0 +1,134 @@
+import { Children, isValidElement, type ReactNode } from "react";
+import { dedent, OUTPUT_FLAG } from "@site/plugins/utils/code";
+import type { MultiCodeTab } from "./MultiCode";
+
+/** Tab labels of fences without a `label`. */
+const LANGUAGE_LABELS: Record<string, string> = {
+  rust: "Rust",
+  ts: "TypeScript",
+  typescript: "TypeScript",
+  tsx: "TSX",
+  js: "JavaScript",
+  javascript: "JavaScript",
+  masm: "MASM",
+  bash: "Shell",
+  sh: "Shell",
+  shell: "Shell",
+  toml: "TOML",
+  json: "JSON",
+};
+
+/** Code language preference values of fences without a `value`. */
+const LANGUAGE_VALUES: Record<string, string> = {
+  rs: "rust",
+  ts: "typescript",
+};
+
+const META_ATTRIBUTE = /\b(label|value)=(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+
+type CodeProps = {
+  className?: string;
+  metastring?: string;
+  children?: ReactNode;
+};
+
+/**
+ * The code element of a fenced code block as MDX renders it (a `pre`
+ * wrapping a `code`, which has no `language-*` class if the fence has no
+ * language), or the code element itself.
+ */
+function getCodeProps(child: ReactNode): CodeProps | null {
+  if (!isValidElement<CodeProps>(child)) return null;
+  const { className, children } = child.props;
+  if (className?.startsWith("language-")) return child.props;
+  const code = Children.toArray(children);
+  return code.length === 1 &&
+    isValidElement<CodeProps>(code[0]) &&
+    (code[0].props.className?.startsWith("language-") ||
+      typeof code[0].props.children === "string")
+    ? code[0].props
+    : null;
+}
+
+export type Fence = {
+  language: string;
+  metastring: string;
+  /** `title="…"` of the metadata. */
+  title?: string;
+  /** Dedented. */
+  code: string;
+};
+
+/**
+ * The fenced code blocks a component has as children, in order.
+ *
+ * @param component Named in the error thrown for other children.
+ */
+export function getFences(children: ReactNode, component: string): Fence[] {
+  return Children.toArray(children).flatMap((child) => {
+    if (typeof child === "string" && !child.trim()) return [];
+    const props = getCodeProps(child);
+    if (!props) {
+      throw new Error(`${component}: children must be fenced code blocks`);
+    }
+    const metastring = props.metastring ?? "";
+    return [
+      {
+        language: props.className?.match(/language-(\S+)/)?.[1] ?? "text",
+        metastring,
+        title: metastring
+          .match(/\btitle=(?:"([^"]*)"|'([^']*)')/)
+          ?.slice(1)
+          .find(Boolean),
+        code: dedent(
+          Children.toArray(props.children)
+            .join("")
+            .replace(/^\n+|\s+$/g, ""),
+        ),
+      },
+    ];
+  });
+}
+
+/**
+ * Tabs from fenced code blocks, one per fence, in order:
+ *
+ *     ```tsx title="index.tsx" label="React" value="react" {3-5}
+ *
+ * `label` is the tab's text and `value` its code language preference
+ * (both default from the language); the rest of the metadata, like the
+ * `title` and line highlights, is the code block's own. A fence marked
+ * `output` is the output of the tab before it.
+ */
+export function getFenceTabs(children: ReactNode): MultiCodeTab[] {
+  const tabs: MultiCodeTab[] = [];
+  for (const { language, metastring, title, code } of getFences(
+    children,
+    "MultiCode",
+  )) {
+    if (OUTPUT_FLAG.test(metastring)) {
+      if (tabs.length === 0) {
+        throw new Error("MultiCode: an output fence must follow a code fence");
+      }
+      tabs.at(-1)!.output = code;
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    const meta = metastring
+      .replace(META_ATTRIBUTE, (_, key: string, ...values: string[]) => {
+        attributes[key] = values.find((value) => value !== undefined)!;
+        return "";
+      })
+      .trim();
+    tabs.push({
+      label: attributes.label ?? LANGUAGE_LABELS[language] ?? language,
+      value: attributes.value ?? LANGUAGE_VALUES[language] ?? language,
+      language,
+      filename: title,
+      metastring: meta || undefined,
+      code,
+    });
+  }
+  return tabs;
+}
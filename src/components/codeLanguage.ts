@@ -0,0 +1,41 @@
+import { useCallback, useEffect } from "react";
+import { useLocation } from "@docusaurus/router";
+import { useStorageSlot } from "@docusaurus/theme-common";
+
+/**
+ * Tab group of the reader's code language. MultiCode (and so CodeTabs and
+ * CodeSdkTabs) always belongs to it; Docusaurus `<Tabs groupId="lang">`
+ * shares it by using the same storage key. Values are tab values such as
+ * `rust`, `typescript`, `react`, `masm` or `cli`.
+ */
+export const CODE_LANGUAGE_GROUP = "lang";
+
+/** The key Docusaurus `<Tabs>` stores a group's choice under. */
+const STORAGE_KEY = `docusaurus.tab.${CODE_LANGUAGE_GROUP}`;
+
+/**
+ * The reader's preferred code language, persisted in localStorage and kept
+ * in sync across every tab block of the page. Null until one is chosen, and
+ * while prerendering.
+ */
+export function useCodeLanguage(): [
+  language: string | null,
+  setLanguage: (language: string) => void,
+] {
+  const [language, slot] = useStorageSlot(STORAGE_KEY);
+  const setLanguage = useCallback((value: string) => slot.set(value), [slot]);
+  return [language, setLanguage];
+}
+
+/**
+ * Makes `?lang=rust` in a link the reader's code language, so shared links
+ * open every code block in that language.
+ */
+export function useCodeLanguageQueryParam(): void {
+  const { search } = useLocation();
+  const [, setLanguage] = useCodeLanguage();
+  useEffect(() => {
+    const language = new URLSearchParams(search).get(CODE_LANGUAGE_GROUP);
+    if (language) setLanguage(language.toLowerCase());
+  }, [search, setLanguage]);
+}
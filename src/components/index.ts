@@ -1,5 +1,7 @@
+export { default as MultiCode } from './MultiCode';
 export { default as CodeTabs } from './CodeTabs';
 export { default as CodeSdkTabs } from './CodeSdkTabs';
+export { default as TerminalOutput } from './TerminalOutput';
 export { default as SectionLinks } from './SectionLinks';
 export { default as VersionNote } from './VersionNote';
 export { default as Callout } from './mdx/Callout';
@@ -7,4 +9,5 @@ export { default as Steps } from './mdx/Steps';
 export { default as Card } from './mdx/Card';
 export { default as CardGrid } from './mdx/CardGrid';
 export { default as Badge } from './mdx/Badge';
-export { default as Kbd } from './mdx/Kbd';
\ No newline at end of file
+export { default as Kbd } from './mdx/Kbd';
+export { default as CodeFromFile } from './mdx/CodeFromFile';
\ No newline at end of file
@@ -75,6 +75,7 @@ export default function Callout({
     <aside
       className={clsx(styles.root, styles[`variant-${variant}`])}
       role={variant === "danger" || variant === "warn" ? "alert" : "note"}
+      data-callout={variant}
     >
       <div className={styles.icon} aria-hidden="true">
         {icon ?? (
@@ -94,7 +95,9 @@ export default function Callout({
       </div>
       <div className={styles.body}>
         {resolvedTitle ? (
-          <div className={styles.title}>{resolvedTitle}</div>
+          <div className={styles.title} data-callout-title>
+            {resolvedTitle}
+          </div>
         ) : null}
         <div className={styles.content}>{children}</div>
       </div>
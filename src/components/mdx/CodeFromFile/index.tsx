@@ -0,0 +1,43 @@
+import React from "react";
+import CodeBlock from "@theme/CodeBlock";
+import styles from "./styles.module.css";
+
+/**
+ * Filled in at build time from the authored `src`, `region` or `lines`
+ * (and optional `title` and `language`) by the remark plugin in
+ * plugins/code-from-file.
+ */
+type CodeFromFileProps = {
+  code: string;
+  language: string;
+  /** The file's path in the repo, unless the doc gives a title. */
+  title: string;
+  /** The lines on GitHub, at the commit the docs were built from. */
+  href: string;
+};
+
+/** Code read from a file in the repo or an ingested repo under `vendor/`. */
+export default function CodeFromFile({
+  code,
+  language,
+  title,
+  href,
+}: CodeFromFileProps): JSX.Element {
+  return (
+    <CodeBlock
+      language={language}
+      title={
+        <a
+          className={styles.source}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {title}
+        </a>
+      }
+    >
+      {code}
+    </CodeBlock>
+  );
+}
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from "react";
+import Link from "@docusaurus/Link";
+import Layout from "@theme/Layout";
+import { translate } from "@docusaurus/Translate";
+import { useHistory, useLocation } from "@docusaurus/router";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import { usePluginData } from "@docusaurus/useGlobalData";
+import { PageMetadata } from "@docusaurus/theme-common";
+import {
+  SEARCH_INDEX_AVAILABLE,
+  searchTags,
+  type SearchHit,
+  type SearchPluginData,
+} from "@site/src/theme/SearchBar/searchIndex";
+import { useSearchScope } from "@site/src/theme/SearchBar/useSearchScope";
+import type { SearchFacetsGlobalData } from "@site/plugins/search-facets";
+import type { SearchSynonymsGlobalData } from "@site/plugins/search-synonyms";
+import { expandSynonyms } from "@site/plugins/search-synonyms/synonyms";
+import styles from "./search.module.css";
+
+// The navbar modal caps hits at the plugin's maxSearchResults; this page is
+// where readers go when that isn't enough.
+const PAGE_RESULTS_LIMIT = 50;
+
+type SearchParams = {
+  query: string;
+  facet?: string;
+  allVersions: boolean;
+};
+
+function readParams(search: string): SearchParams {
+  const params = new URLSearchParams(search);
+  return {
+    query: params.get("q") ?? "",
+    facet: params.get("facet") || undefined,
+    allVersions: params.get("versions") === "all",
+  };
+}
+
+function writeParams({ query, facet, allVersions }: SearchParams): string {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (facet) params.set("facet", facet);
+  if (allVersions) params.set("versions", "all");
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Rendered inside <Layout>: the version scope reads the docs preferred
+// version context, which Layout provides.
+function SearchPageContent(): JSX.Element {
+  const {
+    siteConfig: { baseUrl },
+  } = useDocusaurusContext();
+  const pluginData = usePluginData(
+    "@cmfcmf/docusaurus-search-local",
+  ) as SearchPluginData;
+  const { facets } = usePluginData("search-facets") as SearchFacetsGlobalData;
+  const { synonyms } = usePluginData(
+    "search-synonyms",
+  ) as SearchSynonymsGlobalData;
+  const { tags, allTags, versionLabels } = useSearchScope();
+  const history = useHistory();
+  const location = useLocation();
+
+  const { query, facet, allVersions } = readParams(location.search);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const expansion = expandSynonyms(query, synonyms);
+
+  const update = (changes: Partial<SearchParams>) => {
+    history.replace({
+      ...location,
+      search: writeParams({ query, facet, allVersions, ...changes }),
+    });
+  };
+
+  const scopeTags = allVersions ? allTags : tags;
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    searchTags(baseUrl, scopeTags, expansion.query, pluginData, {
+      limit: PAGE_RESULTS_LIMIT,
+      facet,
+    }).then((results) => {
+      if (!cancelled) setHits(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl, expansion.query, facet, scopeTags.join(",")]);
+
+  const facetLabels = Object.fromEntries(
+    facets.map(({ id, label }) => [id, label]),
+  );
+  const currentVersion = tags
+    .map((tag) => versionLabels[tag])
+    .find((label) => label !== undefined);
+
+  return (
+    <main className={styles.page}>
+      <div className={styles.inner}>
+        <h1 className={styles.title}>
+          {translate({ id: "miden.searchPage.title", message: "Search" })}
+        </h1>
+
+        <input
+          type="search"
+          className={styles.input}
+          value={query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder={translate({
+            message: "cmfcmf/d-s-l.searchBar.placeholder",
+            description: "Placeholder shown in the searchbar",
+          })}
+          aria-label="Search query"
+          autoFocus
+        />
+
+        <div className={styles.filters}>
+          <div
+            className="search-facets"
+            role="group"
+            aria-label="Filter by section"
+          >
+            {[undefined, ...facets].map((item) => (
+              <button
+                key={item?.id ?? "all"}
+                type="button"
+                className="search-facets__chip"
+                aria-pressed={facet === item?.id}
+                onClick={() => update({ facet: item?.id })}
+              >
+                {item?.label ??
+                  translate({
+                    id: "miden.searchBar.facets.all",
+                    message: "All sections",
+                  })}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="search-scope__toggle"
+            aria-pressed={allVersions}
+            onClick={() => update({ allVersions: !allVersions })}
+          >
+            {allVersions
+              ? translate(
+                  {
+                    id: "miden.searchBar.scope.onlyVersion",
+                    message: "Only {version}",
+                  },
+                  { version: currentVersion ?? "this version" },
+                )
+              : translate({
+                  id: "miden.searchBar.scope.searchAllVersions",
+                  message: "Search all versions",
+                })}
+          </button>
+        </div>
+
+        {query.trim() && (
+          <p className={styles.summary}>
+            {!SEARCH_INDEX_AVAILABLE
+              ? // Only shown in development, like the SearchBar's empty state.
+                "The search index is only available when you run docusaurus build!"
+              : hits.length === 0
+                ? translate({
+                    message: "cmfcmf/d-s-l.searchBar.noResults",
+                    description: "message shown if no results are found",
+                  })
+                : translate(
+                    {
+                      id: "miden.searchPage.resultCount",
+                      message: "{count} results",
+                    },
+                    { count: hits.length },
+                  )}
+          </p>
+        )}
+        {expansion.terms.length > 0 && (
+          <p className={styles.synonyms}>
+            {translate(
+              {
+                id: "miden.searchBar.synonyms",
+                message: "Showing results for {terms}",
+              },
+              { terms: expansion.terms.join(", ") },
+            )}
+          </p>
+        )}
+
+        <ul className={styles.results}>
+          {hits.map((hit) => {
+            const { document } = hit;
+            const url = document.sectionRoute;
+            return (
+              <li key={`${hit.tag}:${document.id}`}>
+                <Link
+                  to={url}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    history.push(url, {
+                      cmfcmfhighlight: {
+                        terms: hit.terms,
+                        isDocsOrBlog:
+                          document.type === "docs" || document.type === "blog",
+                      },
+                    });
+                  }}
+                >
+                  {document.sectionTitle}
+                </Link>
+                <div className={styles.meta}>
+                  {document.pageTitle !== document.sectionTitle && (
+                    <span>{document.pageTitle}</span>
+                  )}
+                  {hit.facet && facetLabels[hit.facet] && (
+                    <span>{facetLabels[hit.facet]}</span>
+                  )}
+                  {versionLabels[hit.tag] && (
+                    <span className="search-version-badge">
+                      {versionLabels[hit.tag]}
+                    </span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </main>
+  );
+}
+
+export default function SearchPage(): JSX.Element {
+  return (
+    <Layout>
+      <PageMetadata
+        title={translate({ id: "miden.searchPage.title", message: "Search" })}
+        description="Search the Miden documentation."
+      />
+      <SearchPageContent />
+    </Layout>
+  );
+}
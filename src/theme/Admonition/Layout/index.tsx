@@ -30,6 +30,10 @@ function AdmonitionHeading({ icon, title }: Pick<Props, "icon" | "title">) {
     <div className={styles.admonitionHeading}>
       <span className={styles.admonitionIcon}>{icon}</span>
       {/* {title} */}
+      {/* Not displayed, but kept for "Copy page" */}
+      <span hidden data-admonition-title>
+        {title}
+      </span>
     </div>
   );
 }
@@ -1,5 +1,6 @@
 /**
- * Swizzled DocCard — removes emoji icons from cards.
+ * Swizzled DocCard — removes emoji icons from cards, and shows the linked
+ * doc's difficulty and times (see src/components/DocMeta).
  * Based on @docusaurus/theme-classic DocCard.
  */
 
@@ -15,6 +16,8 @@ import {translate} from '@docusaurus/Translate';
 
 import type {Props} from '@theme/DocCard';
 import Heading from '@theme/Heading';
+import DocMetaList, {useDocMeta} from '@site/src/components/DocMeta';
+import type {DocMeta} from '@site/plugins/doc-meta';
 import type {
   PropSidebarItemCategory,
   PropSidebarItemLink,
@@ -62,11 +65,13 @@ function CardLayout({
   href,
   title,
   description,
+  meta,
 }: {
   className?: string;
   href: string;
   title: string;
   description?: string;
+  meta?: DocMeta;
 }): ReactNode {
   return (
     <CardContainer href={href} className={className}>
@@ -83,6 +88,7 @@ function CardLayout({
           {description}
         </p>
       )}
+      {meta && <DocMetaList meta={meta} compact className={styles.cardMeta} />}
     </CardContainer>
   );
 }
@@ -107,12 +113,14 @@ function CardCategory({item}: {item: PropSidebarItemCategory}): ReactNode {
 
 function CardLink({item}: {item: PropSidebarItemLink}): ReactNode {
   const doc = useDocById(item.docId ?? undefined);
+  const meta = useDocMeta(item.docId ?? undefined);
   return (
     <CardLayout
       className={item.className}
       href={item.href}
       title={item.label}
       description={item.description ?? doc?.description}
+      meta={meta}
     />
   );
 }
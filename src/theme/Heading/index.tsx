@@ -0,0 +1,18 @@
+import React, { type ComponentProps, type ReactNode } from "react";
+import Heading from "@theme-original/Heading";
+import HeadingMenu from "@site/src/components/HeadingMenu";
+
+type Props = ComponentProps<typeof Heading>;
+
+export default function HeadingWrapper({
+  children,
+  ...props
+}: Props): ReactNode {
+  const hasMenu = props.id && (props.as === "h2" || props.as === "h3");
+  return (
+    <Heading {...props}>
+      {children}
+      {hasMenu && <HeadingMenu id={props.id!} />}
+    </Heading>
+  );
+}
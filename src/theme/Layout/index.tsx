@@ -0,0 +1,18 @@
+import React, { type ComponentProps, type ReactNode } from "react";
+import Layout from "@theme-original/Layout";
+import CommandPalette from "@site/src/components/CommandPalette";
+import { useCodeLanguageQueryParam } from "@site/src/components/codeLanguage";
+
+type Props = ComponentProps<typeof Layout>;
+
+export default function LayoutWrapper({ children, ...props }: Props): ReactNode {
+  // ?lang=rust opens every code block in Rust (see codeLanguage.ts)
+  useCodeLanguageQueryParam();
+  return (
+    <Layout {...props}>
+      {/* Inside Layout so the palette has the color mode and docs version contexts */}
+      <CommandPalette />
+      {children}
+    </Layout>
+  );
+}
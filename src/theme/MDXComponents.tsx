@@ -5,6 +5,9 @@ import Card from "@site/src/components/mdx/Card";
 import CardGrid from "@site/src/components/mdx/CardGrid";
 import Badge from "@site/src/components/mdx/Badge";
 import Kbd from "@site/src/components/mdx/Kbd";
+import CodeFromFile from "@site/src/components/mdx/CodeFromFile";
+import TerminalOutput from "@site/src/components/TerminalOutput";
+import { DocHeaderMeta } from "@site/src/components/DocMeta";
 
 /**
  * Globally-registered MDX components. These can be used in any `.md` / `.mdx`
@@ -19,4 +22,7 @@ export default {
   CardGrid,
   Badge,
   Kbd,
+  CodeFromFile,
+  TerminalOutput,
+  DocHeaderMeta,
 };
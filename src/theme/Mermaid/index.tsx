@@ -0,0 +1,13 @@
+import React, { type ComponentProps, type ReactNode } from "react";
+import Mermaid from "@theme-original/Mermaid";
+
+type Props = ComponentProps<typeof Mermaid>;
+
+export default function MermaidWrapper(props: Props): ReactNode {
+  return (
+    // The diagram source, for "Copy page": only the SVG ends up in the DOM
+    <div data-mermaid-source={props.value}>
+      <Mermaid {...props} />
+    </div>
+  );
+}
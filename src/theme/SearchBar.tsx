@@ -1,10 +0,0 @@
-import type {ReactNode} from 'react';
-import SearchBar from '@theme-original/SearchBar';
-import type SearchBarType from '@theme/SearchBar';
-import type {WrapperProps} from '@docusaurus/types';
-
-type Props = WrapperProps<typeof SearchBarType>;
-
-export default function SearchBarWrapper(props: Props): ReactNode {
-  return <SearchBar {...props} />;
-}
@@ -0,0 +1,432 @@
+/**
+ * Ejected from @cmfcmf/docusaurus-search-local's SearchBar.
+ *
+ * Changes from upstream:
+ *  - Results are scoped to the docs version the reader is on. The results
+ *    header carries a toggle to search every version instead.
+ *  - Every hit is labelled with the docs version it belongs to.
+ *  - Facet chips narrow hits to one sidebar section (see the search-facets
+ *    plugin), and a footer link opens the full /search results page.
+ *  - Queries are expanded with glossary synonyms (see the search-synonyms
+ *    plugin), with a "Showing results for …" hint.
+ *  - Index loading/querying lives in ./searchIndex and the version scope in
+ *    ./useSearchScope, so the /search page can share them.
+ */
+
+import React, {
+  useRef,
+  useEffect,
+  createElement,
+  Fragment,
+  useState,
+  type ReactNode,
+} from "react";
+import { createRoot } from "react-dom/client";
+import { autocomplete, type AutocompleteApi } from "@algolia/autocomplete-js";
+import Head from "@docusaurus/Head";
+import { translate } from "@docusaurus/Translate";
+import { useHistory } from "@docusaurus/router";
+import useDocusaurusContext from "@docusaurus/useDocusaurusContext";
+import { usePluginData } from "@docusaurus/useGlobalData";
+import useIsBrowser from "@docusaurus/useIsBrowser";
+import useBaseUrl from "@docusaurus/useBaseUrl";
+// Plugin internals; package.json pins the plugin's exact version for them.
+import { HighlightSearchResults } from "@cmfcmf/docusaurus-search-local/lib/client/theme/SearchBar/HighlightSearchResults";
+import {
+  SEARCH_INDEX_AVAILABLE,
+  searchTags,
+  type SearchHit,
+  type SearchPluginData,
+} from "./searchIndex";
+import { useSearchScope } from "./useSearchScope";
+import type { SearchFacetsGlobalData } from "@site/plugins/search-facets";
+import type { SearchSynonymsGlobalData } from "@site/plugins/search-synonyms";
+import { expandSynonyms } from "@site/plugins/search-synonyms/synonyms";
+
+function getItemUrl({ document }: SearchHit): string {
+  const [path, hash] = document.sectionRoute.split("#");
+  let url = path!;
+  if (hash) {
+    url += "#" + hash;
+  }
+  return url;
+}
+
+export default function SearchBar(): ReactNode {
+  // A bit of a hack that makes sure data-theme is not only set on <html>, but also on <body>.
+  // We would like to useThemeContext, but that is specific to docusaurus-theme-classic.
+  const isBrowser = useIsBrowser();
+  const [isDarkTheme, setIsDarkTheme] = useState(() =>
+    isBrowser
+      ? document.documentElement.getAttribute("data-theme") === "dark"
+      : false,
+  );
+  useEffect(() => {
+    const observer = new MutationObserver(() => {
+      setIsDarkTheme(
+        document.documentElement.getAttribute("data-theme") === "dark",
+      );
+    });
+
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["data-theme"],
+    });
+    return () => observer.disconnect();
+  }, []);
+
+  const {
+    siteConfig: { baseUrl },
+  } = useDocusaurusContext();
+  const pluginData = usePluginData(
+    "@cmfcmf/docusaurus-search-local",
+  ) as SearchPluginData;
+  const { facets } = usePluginData("search-facets") as SearchFacetsGlobalData;
+  const { synonyms } = usePluginData(
+    "search-synonyms",
+  ) as SearchSynonymsGlobalData;
+  const searchPageUrl = useBaseUrl("/search");
+
+  const history = useHistory();
+
+  // `tags` holds the contextual scope: the active (or preferred, or latest)
+  // docs version. Searching "all versions" swaps in one tag per version.
+  const { tags, allTags, versionLabels } = useSearchScope();
+
+  const scopeRef = useRef({ tags, allTags, versionLabels });
+  useEffect(() => {
+    scopeRef.current = { tags, allTags, versionLabels };
+  });
+  // The autocomplete is set up once, so it reads the rest of what it
+  // searches with through a ref as well.
+  const searchRef = useRef({
+    baseUrl,
+    pluginData,
+    facets,
+    synonyms,
+    history,
+    searchPageUrl,
+  });
+  useEffect(() => {
+    searchRef.current = {
+      baseUrl,
+      pluginData,
+      facets,
+      synonyms,
+      history,
+      searchPageUrl,
+    };
+  });
+  const searchAllVersionsRef = useRef(false);
+  const facetRef = useRef<string | undefined>(undefined);
+
+  const placeholder = translate({
+    message: "cmfcmf/d-s-l.searchBar.placeholder",
+    description: "Placeholder shown in the searchbar",
+  });
+
+  const autocompleteRef = useRef<HTMLDivElement>(null);
+  const autocompleteApi = useRef<AutocompleteApi<SearchHit> | null>(null);
+
+  useEffect(() => {
+    if (!autocompleteRef.current) {
+      return;
+    }
+
+    const navigateTo = (item: SearchHit, url: string) => {
+      searchRef.current.history.push(url, {
+        cmfcmfhighlight: {
+          terms: item.terms,
+          isDocsOrBlog:
+            item.document.type === "docs" || item.document.type === "blog",
+        },
+      });
+    };
+
+    const toggleAllVersions = () => {
+      searchAllVersionsRef.current = !searchAllVersionsRef.current;
+      autocompleteApi.current?.refresh();
+    };
+
+    const selectFacet = (facet: string | undefined) => {
+      facetRef.current = facet;
+      autocompleteApi.current?.refresh();
+    };
+
+    const openSearchPage = (query: string) => {
+      const params = new URLSearchParams({ q: query });
+      if (facetRef.current) params.set("facet", facetRef.current);
+      if (searchAllVersionsRef.current) params.set("versions", "all");
+      autocompleteApi.current?.setIsOpen(false);
+      const { history, searchPageUrl } = searchRef.current;
+      history.push(`${searchPageUrl}?${params}`);
+    };
+
+    const renderFacets = () => (
+      <div
+        className="search-facets"
+        role="group"
+        aria-label="Filter by section"
+      >
+        {[undefined, ...searchRef.current.facets].map((facet) => (
+          <button
+            key={facet?.id ?? "all"}
+            type="button"
+            className="search-facets__chip"
+            aria-pressed={facetRef.current === facet?.id}
+            onClick={() => selectFacet(facet?.id)}
+          >
+            {facet?.label ??
+              translate({
+                id: "miden.searchBar.facets.all",
+                message: "All sections",
+              })}
+          </button>
+        ))}
+      </div>
+    );
+
+    const renderSynonyms = (query: string) => {
+      const { terms } = expandSynonyms(query, searchRef.current.synonyms);
+      if (terms.length === 0) return null;
+      return (
+        <div className="search-synonyms">
+          {translate(
+            {
+              id: "miden.searchBar.synonyms",
+              message: "Showing results for {terms}",
+            },
+            { terms: terms.join(", ") },
+          )}
+        </div>
+      );
+    };
+
+    // Rendered above the results (and in the empty state) so the reader can
+    // always see which version they are searching and widen the scope.
+    const renderScope = () => {
+      const { tags, versionLabels } = scopeRef.current;
+      const current = tags
+        .map((tag) => versionLabels[tag])
+        .find((label) => label !== undefined);
+      const searchingAll = searchAllVersionsRef.current;
+      return (
+        <div className="search-scope">
+          <span className="search-scope__label">
+            {searchingAll
+              ? translate({
+                  id: "miden.searchBar.scope.allVersions",
+                  message: "Searching all versions",
+                })
+              : translate(
+                  {
+                    id: "miden.searchBar.scope.version",
+                    message: "Searching {version}",
+                  },
+                  { version: current ?? "current version" },
+                )}
+          </span>
+          <button
+            type="button"
+            className="search-scope__toggle"
+            aria-pressed={searchingAll}
+            onClick={toggleAllVersions}
+          >
+            {searchingAll
+              ? translate(
+                  {
+                    id: "miden.searchBar.scope.onlyVersion",
+                    message: "Only {version}",
+                  },
+                  { version: current ?? "this version" },
+                )
+              : translate({
+                  id: "miden.searchBar.scope.searchAllVersions",
+                  message: "Search all versions",
+                })}
+          </button>
+        </div>
+      );
+    };
+
+    autocompleteApi.current = autocomplete<SearchHit>({
+      container: autocompleteRef.current,
+      placeholder,
+      // Use React instead of Preact
+      renderer: {
+        createElement,
+        Fragment,
+        render: (component, container) =>
+          createRoot(container as HTMLElement).render(component),
+      },
+      // Use react-router for navigation
+      navigator: {
+        navigate({ item, itemUrl }) {
+          navigateTo(item, itemUrl);
+        },
+      },
+      // always open a modal window
+      detachedMediaQuery: "",
+      // preselect the first search result
+      defaultActiveItemId: 0,
+
+      translations: {
+        clearButtonTitle: translate({
+          message: "cmfcmf/d-s-l.searchBar.clearButtonTitle",
+          description: "Title of the button to clear the current search input",
+        }),
+        detachedCancelButtonText: translate({
+          message: "cmfcmf/d-s-l.searchBar.detachedCancelButtonText",
+          description: "Text of the button to close the detached search window",
+        }),
+        submitButtonTitle: translate({
+          message: "cmfcmf/d-s-l.searchBar.submitButtonTitle",
+          description: "Title of the button to submit a new search",
+        }),
+      },
+
+      getSources({ query: input }) {
+        return [
+          {
+            sourceId: "search-results",
+            templates: {
+              header({ state }) {
+                return (
+                  <>
+                    {renderScope()}
+                    {renderFacets()}
+                    {renderSynonyms(state.query)}
+                  </>
+                );
+              },
+              footer({ state }) {
+                return (
+                  <a
+                    href={searchRef.current.searchPageUrl}
+                    className="search-all-results"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      openSearchPage(state.query);
+                    }}
+                  >
+                    {translate({
+                      id: "miden.searchBar.allResults",
+                      message: "See all results",
+                    })}
+                    <span aria-hidden="true">→</span>
+                  </a>
+                );
+              },
+              item({ item }) {
+                const url = getItemUrl(item);
+                const versionLabel = scopeRef.current.versionLabels[item.tag];
+                return (
+                  // We cannot use <Link>, because this stuff is rendered in a completely separate React tree and has no access to the Router and DocusaurusContext.
+                  <a
+                    href={url}
+                    className="aa-ItemLink"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      navigateTo(item, url);
+                    }}
+                  >
+                    <div className="aa-ItemContent">
+                      <div className="aa-ItemContentBody">
+                        <div className="aa-ItemContentTitle">
+                          {item.document.sectionTitle}
+                        </div>
+                        {item.document.pageTitle !==
+                          item.document.sectionTitle && (
+                          <div className="aa-ItemContentDescription">
+                            {item.document.pageTitle}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    {versionLabel ? (
+                      <span className="search-version-badge">
+                        {versionLabel}
+                      </span>
+                    ) : null}
+                    <div className="aa-ItemActions">
+                      <button
+                        className="aa-ItemActionButton aa-DesktopOnly aa-ActiveOnly"
+                        type="button"
+                        title="Select"
+                      >
+                        <svg
+                          viewBox="0 0 24 24"
+                          width="20"
+                          height="20"
+                          fill="currentColor"
+                        >
+                          <path d="M18.984 6.984h2.016v6h-15.188l3.609 3.609-1.406 1.406-6-6 6-6 1.406 1.406-3.609 3.609h13.172v-4.031z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </a>
+                );
+              },
+              noResults() {
+                return (
+                  <>
+                    {renderScope()}
+                    {renderFacets()}
+                    <div className="aa-ItemContent">
+                      <div className="aa-ItemContentBody">
+                        {SEARCH_INDEX_AVAILABLE
+                          ? translate({
+                              message: "cmfcmf/d-s-l.searchBar.noResults",
+                              description:
+                                "message shown if no results are found",
+                            })
+                          : // No need to translate this message, since its only shown in development.
+                            "The search index is only available when you run docusaurus build!"}
+                      </div>
+                    </div>
+                  </>
+                );
+              },
+            },
+            getItemUrl({ item }) {
+              return getItemUrl(item);
+            },
+            getItems() {
+              const { tags, allTags } = scopeRef.current;
+              const { baseUrl, pluginData, synonyms } = searchRef.current;
+              return searchTags(
+                baseUrl,
+                searchAllVersionsRef.current ? allTags : tags,
+                expandSynonyms(input, synonyms).query,
+                pluginData,
+                { facet: facetRef.current },
+              );
+            },
+          },
+        ];
+      },
+    });
+
+    return () => autocompleteApi.current?.destroy();
+  }, [placeholder]);
+
+  return (
+    <>
+      <Head>
+        {/*
+          Needed by the autocomplete for dark mode support
+          https://www.algolia.com/doc/ui-libraries/autocomplete/api-reference/autocomplete-theme-classic/#dark-mode
+        */}
+        <body data-theme={isDarkTheme ? "dark" : "light"} />
+      </Head>
+      <HighlightSearchResults />
+      <div className="dsla-search-wrapper">
+        <div
+          className="dsla-search-field"
+          ref={autocompleteRef}
+          data-tags={tags.join(",")}
+        />
+      </div>
+    </>
+  );
+}
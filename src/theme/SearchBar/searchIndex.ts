@@ -0,0 +1,222 @@
+/**
+ * Index loading and querying for the local search. Split out of the
+ * SearchBar so other search surfaces (the /search page) share the same
+ * per-tag index cache.
+ *
+ * Indexes are written by @cmfcmf/docusaurus-search-local at build time, one
+ * file per Docusaurus search tag (`search-index-docs-default-0.14.json`, …).
+ * The search-facets plugin writes a matching `search-facets-<tag>.json`
+ * mapping each page route to its sidebar section.
+ */
+
+// The search plugin's webpack loader replaces this module with a generated
+// lunr setup (the language pipeline from the plugin config). Queries are
+// tokenized with the search-index plugin's tokenizer instead of the generated
+// one, so they match how the index was built.
+// It is imported by package path: `@theme-original/SearchBar/*` sub-aliases
+// are not reliably ordered ahead of `@theme-original/SearchBar` itself.
+// lib/ is internal to the plugin, so package.json pins its exact version.
+import * as generated from "@cmfcmf/docusaurus-search-local/lib/client/theme/SearchBar/d-s-l-a-generated";
+import type { Builder } from "lunr";
+import { tokenizeQuery } from "@site/plugins/search-index/tokenizer";
+
+export const SEARCH_INDEX_AVAILABLE = process.env.NODE_ENV === "production";
+
+export type SearchDocument = {
+  id: number;
+  pageTitle: string;
+  sectionTitle: string;
+  sectionRoute: string;
+  type: "docs" | "blog" | "page";
+};
+
+/**
+ * Global data published by the search plugin (see its `contentLoaded`), plus
+ * the search-index plugin's `codeBoost`.
+ */
+export type SearchPluginData = {
+  indexDocSidebarParentCategories: number;
+  titleBoost: number;
+  contentBoost: number;
+  codeBoost: number;
+  tagsBoost: number;
+  parentCategoriesBoost: number;
+  maxSearchResults: number;
+};
+
+export type SearchHit = {
+  document: SearchDocument;
+  score: number;
+  terms: string[];
+  /** Search tag of the index the hit came from, e.g. `docs-default-0.14`. */
+  tag: string;
+  /** Sidebar section (search facet id) of the hit's page, if known. */
+  facet?: string;
+};
+
+export type SearchOptions = {
+  limit?: number;
+  /** Only keep hits in this search facet. */
+  facet?: string;
+};
+
+type QueryClauseOptions = {
+  fields: string[];
+  boost: number;
+  wildcard?: number;
+};
+
+type LunrIndex = {
+  query(
+    build: (query: { term(terms: string[], options: QueryClauseOptions): void }) => void,
+  ): Array<{ ref: string; score: number }>;
+};
+
+type LoadedIndex = {
+  documents: SearchDocument[];
+  index: LunrIndex;
+  /** Page route → search facet id. */
+  facets: Record<string, string>;
+};
+
+type GeneratedLunr = {
+  mylunr: ((config: (this: Builder) => void) => LunrIndex) & {
+    Index: { load(serialized: object): LunrIndex };
+    Query: { wildcard: { TRAILING: number } };
+  };
+};
+
+const { mylunr } = generated as unknown as GeneratedLunr;
+
+const EMPTY_INDEX: LoadedIndex = {
+  documents: [],
+  facets: {},
+  index: mylunr(function () {
+    this.ref("id");
+    this.field("title");
+    this.field("content");
+  }),
+};
+
+const indexCache = new Map<string, Promise<LoadedIndex>>();
+
+async function fetchIndex(baseUrl: string, tag: string): Promise<LoadedIndex> {
+  if (!SEARCH_INDEX_AVAILABLE) {
+    // The index does not exist in development, therefore load a dummy index here.
+    return EMPTY_INDEX;
+  }
+  try {
+    const [response, facets] = await Promise.all([
+      fetch(`${baseUrl}search-index-${tag}.json`),
+      fetchFacets(baseUrl, tag),
+    ]);
+    if (!response.ok) return EMPTY_INDEX;
+    const json = await response.json();
+    return {
+      documents: json.documents as SearchDocument[],
+      index: mylunr.Index.load(json.index),
+      facets,
+    };
+  } catch {
+    // An index might not exist if no pages were indexed for that tag
+    // (e.g. the "default" tag when only docs are indexed).
+    return EMPTY_INDEX;
+  }
+}
+
+async function fetchFacets(
+  baseUrl: string,
+  tag: string,
+): Promise<Record<string, string>> {
+  try {
+    const response = await fetch(`${baseUrl}search-facets-${tag}.json`);
+    return response.ok ? await response.json() : {};
+  } catch {
+    // Facets only narrow results; search still works without them.
+    return {};
+  }
+}
+
+/** Load (once) and cache the index for a search tag. */
+export function loadIndex(baseUrl: string, tag: string): Promise<LoadedIndex> {
+  let pending = indexCache.get(tag);
+  if (!pending) {
+    pending = fetchIndex(baseUrl, tag);
+    indexCache.set(tag, pending);
+  }
+  return pending;
+}
+
+/**
+ * Run `input` against every index in `tags` and merge the hits by score.
+ * The query shape mirrors the plugin's own SearchBar: exact and trailing
+ * wildcard clauses on title, content, tags and (optionally) parent categories.
+ * Code blocks are indexed in their own field; exact matches there get
+ * `codeBoost` so they rank above prose mentions, prefix matches only
+ * `contentBoost`.
+ * The facet filter is applied before the limit so narrowing never starves
+ * the result list.
+ */
+export async function searchTags(
+  baseUrl: string,
+  tags: string[],
+  input: string,
+  options: SearchPluginData,
+  { limit = options.maxSearchResults, facet }: SearchOptions = {},
+): Promise<SearchHit[]> {
+  const {
+    titleBoost,
+    contentBoost,
+    codeBoost,
+    tagsBoost,
+    parentCategoriesBoost,
+    indexDocSidebarParentCategories,
+  } = options;
+  const terms = tokenizeQuery(input);
+  const loaded = await Promise.all(tags.map((tag) => loadIndex(baseUrl, tag)));
+
+  return loaded
+    .flatMap(({ index, documents, facets }, i) =>
+      index
+        .query((query) => {
+          const clause = (
+            fields: string[],
+            boost: number,
+            wildcardBoost = boost,
+          ) => {
+            query.term(terms, { fields, boost });
+            query.term(terms, {
+              fields,
+              boost: wildcardBoost,
+              wildcard: mylunr.Query.wildcard.TRAILING,
+            });
+          };
+          clause(["title"], titleBoost);
+          clause(["content"], contentBoost);
+          clause(["code"], codeBoost, contentBoost);
+          clause(["tags"], tagsBoost);
+          if (indexDocSidebarParentCategories) {
+            clause(["sidebarParentCategories"], parentCategoriesBoost);
+          }
+        })
+        .map((result) => {
+          const document = documents.find(
+            (document) => document.id.toString() === result.ref,
+          );
+          return {
+            document,
+            score: result.score,
+            terms,
+            tag: tags[i],
+            facet: document && facets[document.sectionRoute.split("#")[0]],
+          };
+        })
+        .filter(
+          (hit): hit is typeof hit & { document: SearchDocument } =>
+            hit.document !== undefined && (!facet || hit.facet === facet),
+        )
+        .slice(0, limit),
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
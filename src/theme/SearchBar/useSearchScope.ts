@@ -0,0 +1,33 @@
+import { useContextualSearchFilters } from "@docusaurus/theme-common";
+import {
+  getDocsVersionSearchTag,
+  useVersions,
+} from "@docusaurus/plugin-content-docs/client";
+
+const DOCS_PLUGIN_ID = "default";
+
+export type SearchScope = {
+  /** Contextual scope: the active (or preferred, or latest) docs version. */
+  tags: string[];
+  /** One tag per docs version, plus any non-docs tags from `tags`. */
+  allTags: string[];
+  /** Search tag → docs version label (`docs-default-0.14` → "0.14"). */
+  versionLabels: Record<string, string>;
+};
+
+/** Search tags for the current docs version and for every version. */
+export function useSearchScope(): SearchScope {
+  const { tags } = useContextualSearchFilters();
+  const versions = useVersions(DOCS_PLUGIN_ID);
+  const versionLabels = Object.fromEntries(
+    versions.map((version) => [
+      getDocsVersionSearchTag(DOCS_PLUGIN_ID, version.name),
+      version.label,
+    ]),
+  );
+  const allTags = [
+    ...tags.filter((tag) => !(tag in versionLabels)),
+    ...Object.keys(versionLabels),
+  ];
+  return { tags, allTags, versionLabels };
+}